@@ -3,6 +3,8 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "@/hooks/use-auth";
+import { RealtimeProvider } from "@/hooks/use-realtime";
+import { useRealtimeCacheUpdates } from "@/hooks/use-realtime-cache";
 import { ThemeProvider } from "@/hooks/use-theme";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
@@ -21,13 +23,21 @@ function Router() {
   );
 }
 
+function RealtimeCacheUpdates() {
+  useRealtimeCacheUpdates();
+  return null;
+}
+
 function App() {
   return (
     <ThemeProvider defaultTheme="system" storageKey="chat-theme">
       <QueryClientProvider client={queryClient}>
         <AuthProvider>
-          <Router />
-          <Toaster />
+          <RealtimeProvider>
+            <RealtimeCacheUpdates />
+            <Router />
+            <Toaster />
+          </RealtimeProvider>
         </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
@@ -0,0 +1,290 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { decode } from "blurhash";
+import { Download, FileText, Loader2, Pause, Play, X } from "lucide-react";
+import { attachmentMimeTypes, thumbnailWidths, waveformBars, type AttachmentView } from "@shared/schema";
+import { apiRequest, throwIfResNotOk } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+export const attachmentAccept = attachmentMimeTypes.join(",");
+
+export function isAttachableFile(file: File) {
+  return (attachmentMimeTypes as readonly string[]).includes(file.type);
+}
+
+// Sends the file as the raw request body; it stays pending until it is sent
+// with a message. Voice recordings also pass their length and waveform.
+export async function uploadAttachment(
+  conversationId: number,
+  file: File,
+  recording?: { durationMs: number; waveform?: number[] },
+): Promise<AttachmentView> {
+  const params = new URLSearchParams({ filename: file.name, type: file.type });
+  if (recording) {
+    params.set("durationMs", String(recording.durationMs));
+    if (recording.waveform) params.set("waveform", recording.waveform.join(","));
+  }
+  const res = await fetch(`/api/conversations/${conversationId}/attachments?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  await throwIfResNotOk(res);
+  return res.json();
+}
+
+// Deletes an upload that will not be sent. Failures are ignored, as the
+// server also removes uploads that stay pending for too long.
+export function discardAttachment(attachmentId: number) {
+  apiRequest("DELETE", `/api/attachments/${attachmentId}`).catch(() => {});
+}
+
+export function attachmentUrl(attachment: AttachmentView) {
+  return `/api/attachments/${attachment.id}`;
+}
+
+// Box images are fitted into in the message list, in CSS pixels
+const MAX_IMAGE_WIDTH = 320;
+const MAX_IMAGE_HEIGHT = 256;
+// The placeholder is stretched over the image, so a few pixels are enough
+const PLACEHOLDER_SIZE = 32;
+
+function placeholderUrl(blurhash: string) {
+  try {
+    const pixels = decode(blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    const canvas = document.createElement("canvas");
+    canvas.width = PLACEHOLDER_SIZE;
+    canvas.height = PLACEHOLDER_SIZE;
+    const context = canvas.getContext("2d")!;
+    const imageData = context.createImageData(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    return undefined;
+  }
+}
+
+// Thumbnail sized from the stored dimensions, so its space is taken before it
+// loads and the message list does not shift. The blurhash fills it meanwhile.
+function ImageThumbnail({
+  image,
+  naturalWidth,
+  naturalHeight,
+}: {
+  image: AttachmentView;
+  naturalWidth: number;
+  naturalHeight: number;
+}) {
+  const [loaded, setLoaded] = useState(false);
+  const placeholder = useMemo(() => (image.blurhash ? placeholderUrl(image.blurhash) : undefined), [image.blurhash]);
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / naturalWidth, MAX_IMAGE_HEIGHT / naturalHeight);
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+  const thumbnailUrl = (thumbnailWidth: number) => `${attachmentUrl(image)}/thumbnail?width=${thumbnailWidth}`;
+
+  return (
+    <img
+      src={thumbnailUrl(MAX_IMAGE_WIDTH)}
+      srcSet={thumbnailWidths.map((w) => `${thumbnailUrl(w)} ${w}w`).join(", ")}
+      sizes={`${width}px`}
+      alt={image.filename}
+      width={width}
+      height={height}
+      loading="lazy"
+      onLoad={() => setLoaded(true)}
+      // Narrow bubbles shrink the image but keep its shape
+      style={{
+        width,
+        maxWidth: "100%",
+        height: "auto",
+        aspectRatio: `${width} / ${height}`,
+        backgroundImage: !loaded && placeholder ? `url(${placeholder})` : undefined,
+      }}
+      className="rounded-md border bg-muted bg-cover object-cover"
+    />
+  );
+}
+
+export function formatDuration(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+// Drawn for recordings the browser could not measure
+const FLAT_WAVEFORM: number[] = Array(waveformBars).fill(30);
+
+// Player for a voice recording: play/pause, a waveform that fills as it plays
+// and can be clicked to seek, the time and a playback speed toggle
+export function VoiceMessage({ attachment, className }: { attachment: AttachmentView; className?: string }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+  const durationMs = attachment.durationMs ?? 0;
+  const waveform = attachment.waveform?.length ? attachment.waveform : FLAT_WAVEFORM;
+  const progress = durationMs > 0 ? Math.min(positionMs / durationMs, 1) : 0;
+
+  // Loading the source resets playbackRate to the default, so set both
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = rate;
+    audio.playbackRate = rate;
+  }, [rate]);
+
+  function toggle() {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(() => setPlaying(false));
+    else audio.pause();
+  }
+
+  function seek(fraction: number) {
+    const audio = audioRef.current;
+    if (!audio || durationMs === 0) return;
+    // Recorded WebM often has no duration of its own, so seek by the stored one
+    audio.currentTime = (fraction * durationMs) / 1000;
+    setPositionMs(fraction * durationMs);
+  }
+
+  return (
+    <div className={cn("flex items-center gap-2 min-w-48", className)}>
+      <audio
+        ref={audioRef}
+        src={attachmentUrl(attachment)}
+        preload="none"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => setPositionMs(0)}
+        onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+      />
+      <button
+        type="button"
+        className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-black/10 dark:bg-white/10 hover:opacity-80"
+        onClick={toggle}
+        title={playing ? "Pause" : "Play"}
+      >
+        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </button>
+      <button
+        type="button"
+        className="flex h-8 flex-1 items-center gap-px"
+        onClick={(e) => {
+          const bounds = e.currentTarget.getBoundingClientRect();
+          seek(Math.min(Math.max((e.clientX - bounds.left) / bounds.width, 0), 1));
+        }}
+        title="Seek"
+      >
+        {waveform.map((level, index) => (
+          <span
+            key={index}
+            className={cn("w-1 flex-1 rounded-full bg-current", index / waveform.length >= progress && "opacity-40")}
+            style={{ height: `${Math.max(level, 8)}%` }}
+          />
+        ))}
+      </button>
+      <span className="w-10 shrink-0 text-right text-xs tabular-nums">
+        {formatDuration(playing || positionMs > 0 ? positionMs : durationMs)}
+      </span>
+      <button
+        type="button"
+        className="w-9 shrink-0 rounded-full border border-current px-1 text-xs tabular-nums hover:opacity-80"
+        onClick={() => setRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length])}
+        title="Playback speed"
+      >
+        {rate}×
+      </button>
+    </div>
+  );
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Images show inline and open full size in a new tab, recordings get a
+// player and other files are cards that download
+export function AttachmentList({ attachments, className }: { attachments: AttachmentView[]; className?: string }) {
+  const images = attachments.filter((a) => a.mimeType.startsWith("image/"));
+  const recordings = attachments.filter((a) => a.durationMs !== null);
+  const files = attachments.filter((a) => !a.mimeType.startsWith("image/") && a.durationMs === null);
+
+  return (
+    <div className={cn("flex flex-col gap-1", className)}>
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {images.map((image) => (
+            <a key={image.id} href={attachmentUrl(image)} target="_blank" rel="noopener noreferrer">
+              {image.width !== null && image.height !== null ? (
+                <ImageThumbnail image={image} naturalWidth={image.width} naturalHeight={image.height} />
+              ) : (
+                <img
+                  src={attachmentUrl(image)}
+                  alt={image.filename}
+                  loading="lazy"
+                  className="max-h-64 max-w-full rounded-md border object-contain bg-muted"
+                />
+              )}
+            </a>
+          ))}
+        </div>
+      )}
+      {recordings.map((recording) => (
+        <VoiceMessage
+          key={recording.id}
+          attachment={recording}
+          className="rounded-md border bg-background px-2 py-1 text-foreground"
+        />
+      ))}
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={attachmentUrl(file)}
+          download={file.filename}
+          className="flex items-center gap-3 rounded-md border bg-background px-3 py-2 text-sm text-foreground hover:bg-accent"
+        >
+          <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+          <div className="min-w-0">
+            <div className="truncate font-medium">{file.filename}</div>
+            <div className="text-xs text-muted-foreground">{formatFileSize(file.size)}</div>
+          </div>
+          <Download className="h-4 w-4 shrink-0 text-muted-foreground" />
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// A file in the composer, shown while it uploads and until the message is sent
+export function PendingAttachment({
+  filename,
+  uploading,
+  onRemove,
+}: {
+  filename: string;
+  uploading: boolean;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex max-w-48 items-center gap-1 rounded-full border bg-accent/50 py-0.5 pl-2 pr-1 text-xs">
+      {uploading ? (
+        <Loader2 className="h-3 w-3 shrink-0 animate-spin" />
+      ) : (
+        <FileText className="h-3 w-3 shrink-0" />
+      )}
+      <span className="truncate">{filename}</span>
+      <button
+        type="button"
+        className="rounded-full p-0.5 hover:bg-accent"
+        onClick={onRemove}
+        title={`Remove ${filename}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
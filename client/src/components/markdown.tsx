@@ -0,0 +1,160 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { Check, ChevronDown, ChevronUp, Copy } from "lucide-react";
+import { parseMarkdown, type Block, type Inline } from "@shared/markdown";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { detectLanguage, highlight, languageLabel, type TokenType } from "@/lib/highlight";
+import { cn } from "@/lib/utils";
+
+// Longer code blocks start collapsed to this many lines
+const COLLAPSED_LINES = 12;
+
+const tokenClasses: Record<TokenType, string> = {
+  plain: "",
+  keyword: "text-purple-600 dark:text-purple-400",
+  literal: "text-blue-600 dark:text-blue-400",
+  string: "text-green-700 dark:text-green-400",
+  comment: "text-muted-foreground italic",
+  number: "text-orange-600 dark:text-orange-400",
+};
+
+function CodeBlock({ code, language }: { code: string; language: string | null }) {
+  const { toast } = useToast();
+  const [copied, setCopied] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const detected = language ?? detectLanguage(code);
+  const lines = useMemo(() => highlight(code, detected), [code, detected]);
+  const collapsible = lines.length > COLLAPSED_LINES;
+  const visibleLines = collapsible && !expanded ? lines.slice(0, COLLAPSED_LINES) : lines;
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({ title: "Could not copy code", variant: "destructive" });
+    }
+  }
+
+  return (
+    <div className="rounded-md border bg-background text-foreground text-xs overflow-hidden">
+      <div className="flex items-center justify-between border-b bg-muted/50 pl-3 pr-1 py-0.5">
+        <span className="text-muted-foreground">{language ?? languageLabel(detected) ?? "Code"}</span>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={copy}>
+          {copied ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="border-collapse font-mono">
+          <tbody>
+            {visibleLines.map((tokens, index) => (
+              <tr key={index}>
+                <td className="select-none text-right align-top pl-3 pr-3 text-muted-foreground/60">{index + 1}</td>
+                <td className="whitespace-pre pr-3">
+                  {tokens.map((token, tokenIndex) => (
+                    <span key={tokenIndex} className={tokenClasses[token.type]}>
+                      {token.text}
+                    </span>
+                  ))}
+                  {/* Keeps blank lines at full height */}
+                  {tokens.length === 0 && "\n"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {collapsible && (
+        <button
+          type="button"
+          className="flex w-full items-center justify-center gap-1 border-t py-1 text-muted-foreground hover:bg-muted/50"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          {expanded ? "Show less" : `Show all ${lines.length} lines`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Renders message Markdown from the parsed tree. Text only ever becomes React
+// text nodes and links are limited to http(s), so no HTML gets through.
+export function Markdown({
+  content,
+  renderText = (text) => text,
+  className,
+}: {
+  content: string;
+  // Lets callers decorate plain text, e.g. to highlight mentions
+  renderText?: (text: string) => ReactNode;
+  className?: string;
+}) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  function renderInline(nodes: Inline[]): ReactNode[] {
+    return nodes.map((node, index) => {
+      switch (node.type) {
+        case "text":
+          return <span key={index}>{renderText(node.text)}</span>;
+        case "strong":
+          return <strong key={index}>{renderInline(node.children)}</strong>;
+        case "em":
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case "strike":
+          return <s key={index}>{renderInline(node.children)}</s>;
+        case "code":
+          return (
+            <code key={index} className="rounded bg-black/10 dark:bg-white/10 px-1 py-0.5 font-mono text-[0.85em]">
+              {node.code}
+            </code>
+          );
+        case "link":
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="underline underline-offset-2 break-all"
+            >
+              {node.text}
+            </a>
+          );
+        case "break":
+          return <br key={index} />;
+      }
+    });
+  }
+
+  function renderBlock(block: Block, index: number): ReactNode {
+    switch (block.type) {
+      case "paragraph":
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case "code":
+        return <CodeBlock key={index} code={block.code} language={block.language} />;
+      case "quote":
+        return (
+          <blockquote key={index} className="border-l-2 border-current pl-2 opacity-80 space-y-1">
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case "list": {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5">
+            {items}
+          </ul>
+        );
+      }
+    }
+  }
+
+  return <div className={cn("space-y-1 break-words min-w-0", className)}>{blocks.map(renderBlock)}</div>;
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+
+const ACTIVITY_EVENTS = ["pointermove", "pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+// True once there has been no input for timeoutMs, or while the tab is hidden
+export function useIdle(timeoutMs: number) {
+  const [idle, setIdle] = useState(() => document.visibilityState === "hidden");
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    function onActivity() {
+      clearTimeout(timeout);
+      if (document.visibilityState === "hidden") {
+        setIdle(true);
+        return;
+      }
+      setIdle(false);
+      timeout = setTimeout(() => setIdle(true), timeoutMs);
+    }
+
+    onActivity();
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, onActivity, { passive: true }));
+    document.addEventListener("visibilitychange", onActivity);
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, onActivity));
+      document.removeEventListener("visibilitychange", onActivity);
+    };
+  }, [timeoutMs]);
+
+  return idle;
+}
@@ -0,0 +1,51 @@
+import { messageExcerpt, type PresenceView } from "@shared/schema";
+import { toast } from "@/hooks/use-toast";
+import { useRealtime, useRealtimeEvent } from "@/hooks/use-realtime";
+import { queryClient } from "@/lib/queryClient";
+import {
+  addCachedMessage,
+  addCachedPin,
+  mentionsQueryKey,
+  presenceQueryKey,
+  removeCachedPin,
+  replaceCachedMessage,
+  threadQueryKey,
+  updateCachedMessage,
+} from "@/lib/message-cache";
+
+// Keeps the cache in step with what other participants and the user's other
+// devices do. Mounted once for the whole app, so it stays current on every page.
+export function useRealtimeCacheUpdates() {
+  const { viewedConversationId } = useRealtime();
+  useRealtimeEvent("message.created", ({ message }) => addCachedMessage(message));
+  useRealtimeEvent("message.edited", ({ message }) => replaceCachedMessage(message));
+  useRealtimeEvent("message.deleted", ({ message }) => replaceCachedMessage(message));
+  useRealtimeEvent("thread.updated", ({ conversationId, messageId, replyCount }) => {
+    updateCachedMessage(conversationId, messageId, (message) => ({ ...message, replyCount }));
+    queryClient.invalidateQueries({ queryKey: threadQueryKey(conversationId, messageId) });
+  });
+  useRealtimeEvent("message.reactions", ({ conversationId, messageId, reactions }) => {
+    updateCachedMessage(conversationId, messageId, (message) => ({ ...message, reactions }));
+  });
+  useRealtimeEvent("pin.added", ({ conversationId, pin }) => addCachedPin(conversationId, pin));
+  useRealtimeEvent("pin.removed", ({ conversationId, messageId }) => removeCachedPin(conversationId, messageId));
+  useRealtimeEvent("presence", ({ type, ...presence }) => {
+    queryClient.setQueryData<PresenceView[]>(presenceQueryKey, (current) =>
+      current && [...current.filter((p) => p.userId !== presence.userId), presence],
+    );
+  });
+  // Membership changed, which can change the list, titles and contacts
+  useRealtimeEvent("conversation.updated", () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    queryClient.invalidateQueries({ queryKey: presenceQueryKey });
+  });
+  useRealtimeEvent("mention.created", ({ message }) => {
+    queryClient.invalidateQueries({ queryKey: mentionsQueryKey });
+    // The mention is already on screen in the open conversation
+    if (message.conversationId === viewedConversationId()) return;
+    toast({
+      title: "You were mentioned",
+      description: messageExcerpt(message.content),
+    });
+  });
+}
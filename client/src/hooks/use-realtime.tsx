@@ -0,0 +1,142 @@
+import { createContext, ReactNode, useContext, useEffect, useRef, useState } from "react";
+import type { ClientEvent, ServerEvent } from "@shared/schema";
+import { queryClient } from "../lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useIdle } from "@/hooks/use-idle";
+
+export type ConnectionState = "connecting" | "open" | "closed";
+
+type ServerEventType = ServerEvent["type"];
+type ServerEventOf<T extends ServerEventType> = Extract<ServerEvent, { type: T }>;
+type Listener<T extends ServerEventType> = (event: ServerEventOf<T>) => void;
+
+type RealtimeContextType = {
+  // "closed" while logged out and between reconnect attempts
+  state: ConnectionState;
+  // Returns a function that removes the listener
+  subscribe: <T extends ServerEventType>(type: T, listener: Listener<T>) => () => void;
+  // Dropped unless the socket is open; returns whether it was sent
+  publish: (event: ClientEvent) => boolean;
+  // The conversation last published as viewed, or null when none is
+  viewedConversationId: () => number | null;
+};
+
+const RECONNECT_DELAY_MS = 3000;
+// Contacts see the user as away after this long without input
+const AWAY_AFTER_MS = 5 * 60_000;
+
+export const RealtimeContext = createContext<RealtimeContextType | null>(null);
+
+// Owns the one WebSocket of the session. It connects once a user is logged
+// in, reconnects when it drops and closes on logout, and reports whether the
+// user is active in this tab for their presence.
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [state, setState] = useState<ConnectionState>("closed");
+  const wsRef = useRef<WebSocket | null>(null);
+  const listenersRef = useRef(new Map<ServerEventType, Set<(event: ServerEvent) => void>>());
+  const viewedRef = useRef<number | null>(null);
+  const userId = user?.id;
+  const idle = useIdle(AWAY_AFTER_MS);
+
+  useEffect(() => {
+    if (userId === undefined) return;
+    let connectedBefore = false;
+    // Set on cleanup, so closing the socket does not schedule a reconnect
+    let stopped = false;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    function connect() {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      wsRef.current = ws;
+      setState("connecting");
+
+      // The server identifies the user from the session cookie
+      ws.onopen = () => {
+        setState("open");
+        // Events sent while the socket was down are lost, so refetch what is on screen
+        if (connectedBefore) queryClient.invalidateQueries();
+        connectedBefore = true;
+      };
+
+      ws.onmessage = (message) => {
+        try {
+          const event: ServerEvent = JSON.parse(message.data);
+          listenersRef.current.get(event.type)?.forEach((listener) => listener(event));
+        } catch (err) {
+          console.error("Error processing WebSocket message:", err);
+        }
+      };
+
+      ws.onerror = (error) => {
+        console.error("WebSocket error:", error);
+      };
+
+      ws.onclose = () => {
+        wsRef.current = null;
+        setState("closed");
+        if (stopped) return;
+        reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    }
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimeout);
+      wsRef.current?.close();
+    };
+  }, [userId]);
+
+  const subscribe = <T extends ServerEventType>(type: T, listener: Listener<T>) => {
+    const listeners = listenersRef.current;
+    const forType = listeners.get(type) ?? new Set();
+    const untyped = listener as (event: ServerEvent) => void;
+    forType.add(untyped);
+    listeners.set(type, forType);
+    return () => {
+      forType.delete(untyped);
+      if (forType.size === 0) listeners.delete(type);
+    };
+  };
+
+  const publish = (event: ClientEvent) => {
+    if (event.type === "view") viewedRef.current = event.conversationId;
+    const ws = wsRef.current;
+    if (ws?.readyState !== WebSocket.OPEN) return false;
+    ws.send(JSON.stringify(event));
+    return true;
+  };
+
+  // New connections start out active, so this is sent again after a reconnect
+  useEffect(() => {
+    if (state === "open") publish({ type: "activity", active: !idle });
+  }, [idle, state]);
+
+  const viewedConversationId = () => viewedRef.current;
+
+  return (
+    <RealtimeContext.Provider value={{ state, subscribe, publish, viewedConversationId }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error("useRealtime must be used within a RealtimeProvider");
+  }
+  return context;
+}
+
+// Calls the listener for every event of the type while the component is
+// mounted. The latest listener is used, so it may close over fresh state.
+export function useRealtimeEvent<T extends ServerEventType>(type: T, listener: Listener<T>) {
+  const { subscribe } = useRealtime();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribe(type, (event) => listenerRef.current(event)), [type]);
+}
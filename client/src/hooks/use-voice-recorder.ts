@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import { attachmentMimeTypes, maxVoiceMessageSeconds, waveformBars } from "@shared/schema";
+
+export type VoiceRecording = {
+  file: File;
+  durationMs: number;
+  // Peak level of each bar, 0-100; left out when the browser can't decode its own recording
+  waveform?: number[];
+};
+
+// Formats the browser may record in, most preferred first
+const RECORDING_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+async function measureWaveform(file: File): Promise<{ durationMs: number; waveform: number[] }> {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const barSize = Math.max(1, Math.floor(samples.length / waveformBars));
+    const peaks: number[] = [];
+    for (let bar = 0; bar < waveformBars; bar++) {
+      let peak = 0;
+      const end = Math.min((bar + 1) * barSize, samples.length);
+      for (let i = bar * barSize; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+      peaks.push(peak);
+    }
+    const loudest = Math.max(...peaks, 0.01);
+    return {
+      durationMs: Math.round(buffer.duration * 1000),
+      waveform: peaks.map((peak) => Math.round((peak / loudest) * 100)),
+    };
+  } finally {
+    context.close();
+  }
+}
+
+// Records a voice message from the microphone. Recordings stop by themselves
+// at maxVoiceMessageSeconds and are handed to onRecorded with their length
+// and waveform; cancelled ones are dropped.
+export function useVoiceRecorder(onRecorded: (recording: VoiceRecording) => void) {
+  const [recording, setRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const cancelledRef = useRef(false);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  useEffect(() => {
+    if (!recording) return;
+    const startedAt = Date.now();
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setElapsedMs(elapsed);
+      if (elapsed >= maxVoiceMessageSeconds * 1000) recorderRef.current?.stop();
+    }, 200);
+    return () => clearInterval(interval);
+  }, [recording]);
+
+  // Leaving the conversation mid-recording throws the recording away
+  useEffect(() => () => cancel(), []);
+
+  // Rejects when there is no microphone or the user refuses access
+  async function start() {
+    if (recorderRef.current) return;
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = async () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setRecording(false);
+      setElapsedMs(0);
+      if (cancelledRef.current) return;
+
+      const type = recorder.mimeType.split(";")[0];
+      if (!(attachmentMimeTypes as readonly string[]).includes(type)) return;
+      const file = new File(chunks, `Voice message.${type.split("/")[1]}`, { type });
+      const measured = await measureWaveform(file).catch(() => undefined);
+      onRecordedRef.current({
+        file,
+        durationMs: Math.min(measured?.durationMs || Date.now() - startedAt, maxVoiceMessageSeconds * 1000),
+        waveform: measured?.waveform,
+      });
+    };
+
+    cancelledRef.current = false;
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecording(true);
+  }
+
+  function stop() {
+    recorderRef.current?.stop();
+  }
+
+  function cancel() {
+    cancelledRef.current = true;
+    recorderRef.current?.stop();
+  }
+
+  return { recording, elapsedMs, start, stop, cancel };
+}
@@ -0,0 +1,313 @@
+// Small syntax highlighter for code blocks in messages. It only splits code
+// into keywords, strings, comments, numbers and literals, which is enough to
+// make snippets readable without shipping a full grammar library.
+
+export type TokenType = "plain" | "keyword" | "literal" | "string" | "comment" | "number";
+
+export type Token = { type: TokenType; text: string };
+
+type LanguageDefinition = {
+  label: string;
+  aliases: string[];
+  keywords: string[];
+  literals?: string[];
+  lineComments?: string[];
+  blockComment?: [string, string];
+  // Quote characters; a tripled quote opens a string that may span lines
+  quotes: string[];
+  caseInsensitive?: boolean;
+};
+
+const C_LIKE_LITERALS = ["true", "false", "null"];
+
+const languageDefinitions: LanguageDefinition[] = [
+  {
+    label: "JavaScript",
+    aliases: ["javascript", "js", "jsx", "mjs", "cjs", "typescript", "ts", "tsx"],
+    keywords: [
+      "abstract", "as", "async", "await", "break", "case", "catch", "class", "const", "continue", "default",
+      "delete", "do", "else", "enum", "export", "extends", "finally", "for", "from", "function", "if",
+      "implements", "import", "in", "instanceof", "interface", "let", "new", "of", "private", "protected",
+      "public", "readonly", "return", "static", "super", "switch", "this", "throw", "try", "type", "typeof",
+      "var", "void", "while", "yield",
+    ],
+    literals: ["true", "false", "null", "undefined", "NaN"],
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'", "\"", "`"],
+  },
+  {
+    label: "Python",
+    aliases: ["python", "py"],
+    keywords: [
+      "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else",
+      "except", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "nonlocal", "not",
+      "or", "pass", "raise", "return", "try", "while", "with", "yield", "self",
+    ],
+    literals: ["True", "False", "None"],
+    lineComments: ["#"],
+    quotes: ["'", "\""],
+  },
+  {
+    label: "Shell",
+    aliases: ["bash", "sh", "shell", "zsh", "console"],
+    keywords: [
+      "if", "then", "else", "elif", "fi", "for", "while", "until", "do", "done", "case", "esac", "in",
+      "function", "return", "export", "local", "echo", "cd", "sudo", "exit",
+    ],
+    lineComments: ["#"],
+    quotes: ["'", "\""],
+  },
+  {
+    label: "SQL",
+    aliases: ["sql", "postgres", "sqlite"],
+    keywords: [
+      "select", "from", "where", "and", "or", "not", "insert", "into", "values", "update", "set", "delete",
+      "join", "left", "right", "inner", "outer", "on", "group", "by", "order", "having", "limit", "offset",
+      "create", "table", "index", "alter", "drop", "add", "column", "primary", "key", "references", "as",
+      "distinct", "union", "all", "exists", "in", "is", "like", "case", "when", "then", "else", "end",
+      "returning", "default", "constraint", "unique", "asc", "desc",
+    ],
+    literals: ["null", "true", "false"],
+    lineComments: ["--"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'"],
+    caseInsensitive: true,
+  },
+  {
+    label: "JSON",
+    aliases: ["json", "jsonc"],
+    keywords: [],
+    literals: C_LIKE_LITERALS,
+    quotes: ["\""],
+  },
+  {
+    label: "CSS",
+    aliases: ["css", "scss", "less"],
+    keywords: ["important", "media", "import", "keyframes", "from", "to"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'", "\""],
+  },
+  {
+    label: "Go",
+    aliases: ["go", "golang"],
+    keywords: [
+      "break", "case", "chan", "const", "continue", "default", "defer", "else", "fallthrough", "for", "func",
+      "go", "goto", "if", "import", "interface", "map", "package", "range", "return", "select", "struct",
+      "switch", "type", "var",
+    ],
+    literals: ["true", "false", "nil", "iota"],
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'", "\"", "`"],
+  },
+  {
+    label: "Rust",
+    aliases: ["rust", "rs"],
+    keywords: [
+      "as", "async", "await", "break", "const", "continue", "crate", "else", "enum", "extern", "fn", "for",
+      "if", "impl", "in", "let", "loop", "match", "mod", "move", "mut", "pub", "ref", "return", "self",
+      "Self", "static", "struct", "super", "trait", "type", "unsafe", "use", "where", "while",
+    ],
+    literals: ["true", "false", "None", "Some", "Ok", "Err"],
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    quotes: ["\""],
+  },
+  {
+    label: "Java",
+    aliases: ["java", "kotlin", "kt", "csharp", "cs"],
+    keywords: [
+      "abstract", "break", "case", "catch", "class", "continue", "default", "do", "else", "enum", "extends",
+      "final", "finally", "for", "if", "implements", "import", "instanceof", "interface", "new", "package",
+      "private", "protected", "public", "return", "static", "super", "switch", "this", "throw", "throws",
+      "try", "void", "while", "var", "val", "fun", "using", "namespace",
+    ],
+    literals: C_LIKE_LITERALS,
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'", "\""],
+  },
+  {
+    label: "C",
+    aliases: ["c", "h", "cpp", "c++", "cc", "hpp"],
+    keywords: [
+      "auto", "break", "case", "char", "class", "const", "continue", "default", "do", "double", "else", "enum",
+      "extern", "float", "for", "if", "include", "define", "int", "long", "namespace", "public", "private",
+      "return", "short", "signed", "sizeof", "static", "struct", "switch", "template", "typedef", "union",
+      "unsigned", "using", "void", "while",
+    ],
+    literals: ["true", "false", "NULL", "nullptr"],
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'", "\""],
+  },
+];
+
+type Language = LanguageDefinition & { keywordSet: Set<string>; literalSet: Set<string> };
+
+const languages = new Map<string, Language>();
+languageDefinitions.forEach((definition) => {
+  const normalize = (word: string) => (definition.caseInsensitive ? word.toLowerCase() : word);
+  const language = {
+    ...definition,
+    keywordSet: new Set(definition.keywords.map(normalize)),
+    literalSet: new Set((definition.literals ?? []).map(normalize)),
+  };
+  definition.aliases.forEach((alias) => languages.set(alias, language));
+});
+
+// Display name for a fence tag, or null when it is not a known language
+export function languageLabel(tag: string | null): string | null {
+  return (tag && languages.get(tag.toLowerCase())?.label) || null;
+}
+
+// Each clue found in the code adds its weight to the language's score
+const detectionClues: [string, RegExp, number][] = [
+  ["python", /^\s*def \w+\(.*\)\s*(->\s*[\w[\], ]+)?:\s*$/m, 3],
+  ["python", /^\s*(from [\w.]+ import|import [\w.]+$)/m, 2],
+  ["python", /\b(elif|self\.|print\(|None\b)/, 1],
+  ["javascript", /\b(const|let|var)\s+\w+(:\s*[\w<>[\]]+)?\s*=/, 2],
+  ["javascript", /=>|\bfunction\s*\w*\(|console\.log|\bexport (default |const |function )/, 2],
+  ["javascript", /\binterface \w+\s*\{|:\s*(string|number|boolean)\b/, 1],
+  ["bash", /^#!\/(usr\/)?bin\/(env )?(ba|z)?sh/m, 5],
+  ["bash", /^\s*(\$ )?(sudo|npm|npx|yarn|pnpm|git|cd|ls|echo|export|curl|docker|apt(-get)?) /m, 2],
+  ["sql", /\bselect\b[\s\S]+\bfrom\b/i, 3],
+  ["sql", /\b(insert into|create table|update \w+ set|delete from|alter table)\b/i, 3],
+  ["go", /^package \w+$/m, 4],
+  ["go", /\bfunc (\(\w+ \*?\w+\) )?\w+\(|:=/, 2],
+  ["rust", /\bfn \w+(<[^>]*>)?\(|\blet mut\b|\bimpl\b|println!/, 3],
+  ["java", /\b(public|private) (static )?(class|void|final)\b|System\.out\./, 3],
+  ["c", /^#include\s*[<"]|\bint main\s*\(|printf\(|std::/m, 4],
+  ["css", /^\s*[.#]?[\w-]+(\s*[,>+~]\s*[.#]?[\w-]+)*\s*\{[^}]*\b[\w-]+\s*:[^;]+;/m, 3],
+];
+
+// Best guess at the language of an untagged code block, or null
+export function detectLanguage(code: string): string | null {
+  const trimmed = code.trim();
+  if (/^[{[]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return "json";
+    } catch {
+      // Not JSON, carry on with the other clues
+    }
+  }
+
+  const scores = new Map<string, number>();
+  detectionClues.forEach(([language, pattern, weight]) => {
+    if (pattern.test(code)) scores.set(language, (scores.get(language) ?? 0) + weight);
+  });
+
+  let best: string | null = null;
+  let bestScore = 1;
+  scores.forEach((score, language) => {
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function isIdentifierStart(char: string) {
+  return /[A-Za-z_$]/.test(char);
+}
+
+function isIdentifierPart(char: string | undefined) {
+  return char !== undefined && /[\w$]/.test(char);
+}
+
+// Index just past the string opened by `quote` at `start`
+function stringEnd(code: string, start: number, quote: string): number {
+  const multiline = quote.length === 3 || quote === "`";
+  let i = start + quote.length;
+  while (i < code.length) {
+    if (code[i] === "\\") {
+      i += 2;
+    } else if (code.startsWith(quote, i)) {
+      return i + quote.length;
+    } else if (code[i] === "\n" && !multiline) {
+      return i;
+    } else {
+      i++;
+    }
+  }
+  return code.length;
+}
+
+function tokenize(code: string, language: Language): Token[] {
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+  const quotes = language.quotes.flatMap((quote) => (quote === "`" ? [quote] : [quote.repeat(3), quote]));
+
+  let i = 0;
+  while (i < code.length) {
+    const { blockComment } = language;
+    if (blockComment && code.startsWith(blockComment[0], i)) {
+      const close = code.indexOf(blockComment[1], i + blockComment[0].length);
+      const end = close === -1 ? code.length : close + blockComment[1].length;
+      push("comment", code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    if (language.lineComments?.some((marker) => code.startsWith(marker, i))) {
+      const newline = code.indexOf("\n", i);
+      const end = newline === -1 ? code.length : newline;
+      push("comment", code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    const quote = quotes.find((q) => code.startsWith(q, i));
+    if (quote) {
+      const end = stringEnd(code, i, quote);
+      push("string", code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    const char = code[i];
+    if (/\d/.test(char) && !isIdentifierPart(code[i - 1])) {
+      let end = i + 1;
+      while (end < code.length && /[\w.]/.test(code[end])) end++;
+      push("number", code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    if (isIdentifierStart(char)) {
+      let end = i + 1;
+      while (isIdentifierPart(code[end])) end++;
+      const word = code.slice(i, end);
+      const key = language.caseInsensitive ? word.toLowerCase() : word;
+      push(language.keywordSet.has(key) ? "keyword" : language.literalSet.has(key) ? "literal" : "plain", word);
+      i = end;
+      continue;
+    }
+
+    push("plain", char);
+    i++;
+  }
+  return tokens;
+}
+
+// Tokens for each line of the code. Unknown languages come back as plain text.
+export function highlight(code: string, tag: string | null): Token[][] {
+  const language = tag ? languages.get(tag.toLowerCase()) : undefined;
+  const tokens = language ? tokenize(code, language) : [{ type: "plain" as const, text: code }];
+
+  const lines: Token[][] = [[]];
+  tokens.forEach(({ type, text }) => {
+    text.split("\n").forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type, text: part });
+    });
+  });
+  return lines;
+}
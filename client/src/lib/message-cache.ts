@@ -0,0 +1,121 @@
+// Query keys of the chat data and the in-place updates made to its cache,
+// shared by the chat page and the realtime events that keep it current.
+
+import type { InfiniteData } from "@tanstack/react-query";
+import { messageExcerpt, type Message, type MessagePage, type MessageView, type PinView } from "@shared/schema";
+import { queryClient } from "./queryClient";
+
+export type MessageCursor = { before?: number; after?: number; around?: number };
+export type MessagesData = InfiniteData<MessagePage, MessageCursor>;
+
+export const mentionsQueryKey = ["/api/mentions"];
+
+export const presenceQueryKey = ["/api/presence"];
+
+export function messagesQueryKey(conversationId: number) {
+  return [`/api/conversations/${conversationId}/messages`];
+}
+
+// Appends a new message to the newest cached page, unless it is already there.
+// Thread-only replies stay out of the conversation, and so does everything
+// while the pages loaded around a jump do not reach the newest message yet.
+export function addCachedMessage(message: MessageView) {
+  if (message.threadOnly) return;
+  queryClient.setQueryData<MessagesData>(messagesQueryKey(message.conversationId), (current) => {
+    if (!current) return current;
+    const pages = [...current.pages];
+    const last = pages[pages.length - 1];
+    if (last.nextCursor !== null || last.messages.some((m) => m.id === message.id)) return current;
+    pages[pages.length - 1] = { ...last, messages: [...last.messages, message] };
+    return { ...current, pages };
+  });
+}
+
+export function pinsQueryKey(conversationId: number) {
+  return [`/api/conversations/${conversationId}/pins`];
+}
+
+// Pins are listed newest first
+export function addCachedPin(conversationId: number, pin: PinView) {
+  queryClient.setQueryData<PinView[]>(pinsQueryKey(conversationId), (current) =>
+    current && [pin, ...current.filter((p) => p.message.id !== pin.message.id)],
+  );
+}
+
+export function removeCachedPin(conversationId: number, messageId: number) {
+  queryClient.setQueryData<PinView[]>(pinsQueryKey(conversationId), (current) =>
+    current?.filter((p) => p.message.id !== messageId),
+  );
+}
+
+export function threadQueryKey(conversationId: number, messageId: number) {
+  return [`/api/conversations/${conversationId}/messages/${messageId}/thread`];
+}
+
+export function messageEditsQueryKey(message: Message) {
+  return [`/api/conversations/${message.conversationId}/messages/${message.id}/edits`];
+}
+
+export function updateCachedMessage(
+  conversationId: number,
+  messageId: number,
+  update: (message: MessageView) => MessageView,
+) {
+  queryClient.setQueryData<MessagesData>(messagesQueryKey(conversationId), (current) => {
+    if (!current) return current;
+    return {
+      ...current,
+      pages: current.pages.map((page) => ({
+        ...page,
+        messages: page.messages.map((m) => (m.id === messageId ? update(m) : m)),
+      })),
+    };
+  });
+}
+
+// Swaps an updated message into whichever cached page holds it, and refreshes
+// the quotes of replies to it and its pin. Deleted messages lose their pin.
+export function replaceCachedMessage(message: MessageView) {
+  queryClient.setQueryData<MessagesData>(messagesQueryKey(message.conversationId), (current) => {
+    if (!current) return current;
+    return {
+      ...current,
+      pages: current.pages.map((page) => ({
+        ...page,
+        messages: page.messages.map((m) => {
+          if (m.id === message.id) return message;
+          if (m.replyTo?.id !== message.id) return m;
+          return {
+            ...m,
+            replyTo: {
+              ...m.replyTo,
+              excerpt: message.deletedAt ? "" : messageExcerpt(message.content),
+              deleted: !!message.deletedAt,
+            },
+          };
+        }),
+      })),
+    };
+  });
+  if (message.deletedAt) {
+    removeCachedPin(message.conversationId, message.id);
+  } else {
+    queryClient.setQueryData<PinView[]>(pinsQueryKey(message.conversationId), (current) =>
+      current?.map((pin) => (pin.message.id === message.id ? { ...pin, message } : pin)),
+    );
+  }
+  queryClient.invalidateQueries({ queryKey: messageEditsQueryKey(message) });
+}
+
+export function removeCachedMessage(message: Message) {
+  queryClient.setQueryData<MessagesData>(messagesQueryKey(message.conversationId), (current) => {
+    if (!current) return current;
+    return {
+      ...current,
+      pages: current.pages.map((page) => ({
+        ...page,
+        messages: page.messages.filter((m) => m.id !== message.id),
+      })),
+    };
+  });
+}
@@ -1,16 +1,95 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Markdown } from "@/components/markdown";
+import {
+  AttachmentList,
+  PendingAttachment,
+  VoiceMessage,
+  attachmentAccept,
+  discardAttachment,
+  formatDuration,
+  isAttachableFile,
+  uploadAttachment,
+} from "@/components/attachments";
+import { useVoiceRecorder } from "@/hooks/use-voice-recorder";
+import { useRealtime, useRealtimeEvent } from "@/hooks/use-realtime";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  addCachedMessage,
+  addCachedPin,
+  mentionsQueryKey,
+  messageEditsQueryKey,
+  messagesQueryKey,
+  pinsQueryKey,
+  presenceQueryKey,
+  removeCachedMessage,
+  removeCachedPin,
+  replaceCachedMessage,
+  threadQueryKey,
+  updateCachedMessage,
+  type MessageCursor,
+  type MessagesData,
+} from "@/lib/message-cache";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertMessageSchema } from "@shared/schema";
-import { LogOut, Send, Loader2, MessageSquare, UserPlus, User, Menu, MessageCircle } from "lucide-react";
-import { useState, useEffect, useRef } from "react";
+import {
+  insertMessageSchema,
+  maxAttachmentsPerMessage,
+  type AttachmentView,
+  type ConversationWithParticipants,
+  type MessageKind,
+  type Message,
+  type MessageEdit,
+  type MessagePage,
+  type MessageView,
+  type PinView,
+  type PresenceView,
+  type PublicUser,
+  type ReactionSummary,
+  type ThreadView,
+  mentionPattern,
+  messageExcerpt,
+} from "@shared/schema";
+import {
+  LogOut,
+  Send,
+  Loader2,
+  MessageSquare,
+  UserPlus,
+  User,
+  Users,
+  Menu,
+  MessageCircle,
+  X,
+  Pencil,
+  MoreHorizontal,
+  Trash2,
+  SmilePlus,
+  MessagesSquare,
+  AtSign,
+  Bold,
+  Italic,
+  Strikethrough,
+  Code,
+  SquareCode,
+  Quote,
+  List,
+  ListOrdered,
+  Eye,
+  EyeOff,
+  Paperclip,
+  Upload,
+  Mic,
+  Pin,
+  PinOff,
+} from "lucide-react";
+import { useState, useEffect, useLayoutEffect, useRef, type ComponentProps, type ReactNode, type RefObject } from "react";
 import {
   Dialog,
   DialogContent,
@@ -18,90 +97,102 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem } from "@/components/ui/form";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Link } from "wouter";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { motion, useAnimation, PanInfo } from "framer-motion";
+import { format, formatDistanceToNow } from "date-fns";
 
-// Modify the WebSocket setup
-function useWebSocket() {
-  const { user } = useAuth();
-  const wsRef = useRef<WebSocket | null>(null);
-  const [typingUsers, setTypingUsers] = useState<{ [key: number]: boolean }>({});
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+function conversationTitle(conversation: ConversationWithParticipants) {
+  return conversation.isGroup ? conversation.name : conversation.otherUser?.username;
+}
 
-  useEffect(() => {
-    if (!user) return;
-
-    function connect() {
-      console.log('Attempting WebSocket connection...');
-      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/ws`;
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        console.log('WebSocket connected, initializing for user:', user.id);
-        ws.send(JSON.stringify({ type: 'init', userId: user.id }));
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          console.log('Received WebSocket message:', data);
-          switch (data.type) {
-            case 'ping':
-              console.log('Received ping from server');
-              break;
-            case 'typing':
-              setTypingUsers(prev => ({
-                ...prev,
-                [data.userId]: data.isTyping
-              }));
-              break;
-          }
-        } catch (err) {
-          console.error('Error processing WebSocket message:', err);
-        }
-      };
-
-      ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
-      };
-
-      ws.onclose = () => {
-        console.log('WebSocket disconnected, attempting to reconnect...');
-        wsRef.current = null;
-        // Attempt to reconnect after 3 seconds
-        reconnectTimeoutRef.current = setTimeout(connect, 3000);
-      };
-    }
+function ConversationAvatar({ conversation }: { conversation: ConversationWithParticipants }) {
+  const picture = conversation.isGroup ? conversation.avatar : conversation.otherUser?.profilePicture;
+  return (
+    <div className="h-9 w-9 rounded-full bg-primary/10 flex items-center justify-center overflow-hidden">
+      {picture ? (
+        <img
+          src={picture}
+          alt={conversationTitle(conversation) ?? ""}
+          className="h-full w-full object-cover"
+        />
+      ) : conversation.isGroup ? (
+        <Users className="h-5 w-5 text-primary" />
+      ) : (
+        <User className="h-5 w-5 text-primary" />
+      )}
+    </div>
+  );
+}
 
-    // Only connect if we have a valid user
-    if (user.id) {
-      connect();
-    }
+// Presence of the user's contacts by user id
+function usePresence() {
+  const { data } = useQuery<PresenceView[]>({ queryKey: presenceQueryKey });
+  return new Map(data?.map((view) => [view.userId, view]));
+}
+
+// Nothing is drawn for offline users
+function PresenceDot({ presence }: { presence?: PresenceView }) {
+  if (!presence || presence.status === "offline") return null;
+  return (
+    <div
+      className={`absolute -bottom-0.5 -right-0.5 h-3 w-3 rounded-full border-2 border-background ${
+        presence.status === "online" ? "bg-green-500" : "bg-yellow-500"
+      }`}
+      title={presence.status === "online" ? "Online" : "Away"}
+    />
+  );
+}
+
+// "online", "away" or when the user was last seen; null if they never were
+function presenceLabel(user: PublicUser, presence?: PresenceView) {
+  if (presence?.status === "online" || presence?.status === "away") return presence.status;
+  const lastSeenAt = presence?.lastSeenAt ?? user.lastSeenAt;
+  return lastSeenAt ? `last seen ${formatDistanceToNow(new Date(lastSeenAt), { addSuffix: true })}` : null;
+}
+
+async function fetchMessagePage(conversationId: number, cursor: MessageCursor): Promise<MessagePage> {
+  const params = new URLSearchParams();
+  if (cursor.before !== undefined) params.set("before", String(cursor.before));
+  if (cursor.after !== undefined) params.set("after", String(cursor.after));
+  if (cursor.around !== undefined) params.set("around", String(cursor.around));
+  const res = await apiRequest("GET", `/api/conversations/${conversationId}/messages?${params}`);
+  return res.json();
+}
+
+// Typing indicators for the open conversation, by user id. The server only
+// relays typing for the conversation a connection says it is viewing.
+function useTyping(conversationId: number) {
+  const { state, publish } = useRealtime();
+  const [typingUsers, setTypingUsers] = useState<{ [key: number]: boolean }>({});
 
+  // Announced again after a reconnect, since the server forgets it
+  useEffect(() => {
+    setTypingUsers({});
+    if (state !== "open") return;
+    publish({ type: "view", conversationId });
     return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
+      publish({ type: "view", conversationId: null });
     };
-  }, [user]);
+  }, [conversationId, state]);
+
+  useRealtimeEvent("typing", (event) => {
+    if (event.conversationId !== conversationId) return;
+    setTypingUsers((prev) => ({ ...prev, [event.userId]: event.isTyping }));
+  });
 
   const sendTypingStatus = (conversationId: number, isTyping: boolean) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN && user) {
-      console.log('Sending typing status:', { conversationId, isTyping });
-      wsRef.current.send(JSON.stringify({
-        type: 'typing',
-        userId: user.id,
-        conversationId,
-        isTyping
-      }));
-    }
+    publish({ type: "typing", conversationId, isTyping });
   };
 
   return { typingUsers, sendTypingStatus };
@@ -110,8 +201,12 @@ function useWebSocket() {
 export default function ChatPage() {
   const { user, logoutMutation } = useAuth();
   const [selectedConversation, setSelectedConversation] = useState<number | null>(null);
+  // Message to scroll to once the selected conversation is open
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
   const [showSidebar, setShowSidebar] = useState(true);
   const { toast } = useToast();
+  const { state: connectionState } = useRealtime();
+  const presence = usePresence();
 
   // Close sidebar on mobile when conversation is selected
   useEffect(() => {
@@ -120,22 +215,24 @@ export default function ChatPage() {
     }
   }, [selectedConversation]);
 
-  const { data: conversations, isLoading: conversationsLoading } = useQuery({
+  const { data: conversations, isLoading: conversationsLoading } = useQuery<ConversationWithParticipants[]>({
     queryKey: ["/api/conversations"],
   });
 
-  // Poll for new messages every 3 seconds
+  // Someone else may have removed the user from the open group
   useEffect(() => {
-    if (!selectedConversation) return;
-
-    const interval = setInterval(() => {
-      queryClient.invalidateQueries({
-        queryKey: [`/api/conversations/${selectedConversation}/messages`],
-      });
-    }, 3000);
+    if (conversations && !conversations.some(({ id }) => id === selectedConversation)) {
+      setSelectedConversation(null);
+    }
+  }, [conversations]);
 
-    return () => clearInterval(interval);
-  }, [selectedConversation]);
+  const { data: mentions } = useQuery<MessageView[]>({
+    queryKey: mentionsQueryKey,
+  });
+  const mentionCounts = new Map<number, number>();
+  mentions?.forEach(({ conversationId }) => {
+    mentionCounts.set(conversationId, (mentionCounts.get(conversationId) ?? 0) + 1);
+  });
 
   if (conversationsLoading) {
     return (
@@ -167,6 +264,15 @@ export default function ChatPage() {
           <h2 className="font-semibold">Conversations</h2>
           <div className="flex gap-2">
             <NewConversationDialog />
+            <NewGroupDialog onCreated={setSelectedConversation} />
+            <MentionsMenu
+              mentions={mentions ?? []}
+              conversations={conversations ?? []}
+              onSelect={(mention) => {
+                setSelectedConversation(mention.conversationId);
+                setFocusMessageId(mention.id);
+              }}
+            />
             <Link href="/profile">
               <Button variant="ghost" size="icon" title="Profile Settings">
                 <User className="h-4 w-4" />
@@ -182,54 +288,60 @@ export default function ChatPage() {
             </Button>
           </div>
         </div>
+        {connectionState !== "open" && (
+          <div className="px-4 py-1 border-b flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Connecting...
+          </div>
+        )}
 
         <ScrollArea className="flex-1">
-          {conversations?.map((conv: any) => {
-            const unreadCount = conv.messages?.filter(
-              (m: any) => m.senderId !== user?.id && !m.read
-            ).length;
-
-            return (
-              <div
-                key={conv.id}
-                className={`p-4 cursor-pointer hover:bg-accent ${
-                  selectedConversation === conv.id ? "bg-accent" : ""
-                }`}
-                onClick={() => setSelectedConversation(conv.id)}
-              >
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className="relative">
-                      <div className="h-9 w-9 rounded-full bg-primary/10 flex items-center justify-center overflow-hidden">
-                        {conv.otherUser?.profilePicture ? (
-                          <img
-                            src={conv.otherUser.profilePicture}
-                            alt={conv.otherUser.username}
-                            className="h-full w-full object-cover"
-                          />
-                        ) : (
-                          <User className="h-5 w-5 text-primary" />
-                        )}
+          {conversations?.map((conv) => (
+            <div
+              key={conv.id}
+              className={`p-4 cursor-pointer hover:bg-accent ${
+                selectedConversation === conv.id ? "bg-accent" : ""
+              }`}
+              onClick={() => setSelectedConversation(conv.id)}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="relative">
+                    <ConversationAvatar conversation={conv} />
+                    {conv.otherUser && <PresenceDot presence={presence.get(conv.otherUser.id)} />}
+                  </div>
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{conversationTitle(conv)}</div>
+                    {conv.isGroup && (
+                      <div className="text-xs text-muted-foreground truncate">
+                        {conv.participants.map((p) => p.username).join(", ")}
                       </div>
-                    </div>
-                    <div className="font-medium">{conv.otherUser?.username}</div>
+                    )}
                   </div>
-                  {unreadCount > 0 && (
-                    <div className="bg-primary text-primary-foreground rounded-full px-2 py-0.5 text-xs">
-                      {unreadCount}
-                    </div>
-                  )}
                 </div>
+                {mentionCounts.has(conv.id) && (
+                  <div
+                    className="bg-primary text-primary-foreground rounded-full px-1.5 py-0.5 text-xs flex items-center"
+                    title={`${mentionCounts.get(conv.id)} unread mentions`}
+                  >
+                    <AtSign className="h-3 w-3" />
+                  </div>
+                )}
               </div>
-            );
-          })}
+            </div>
+          ))}
         </ScrollArea>
       </div>
 
       {/* Chat Area */}
       <div className={`flex-1 flex flex-col ${!showSidebar ? 'ml-0' : 'md:ml-0 ml-80'}`}>
         {selectedConversation ? (
-          <ChatArea conversationId={selectedConversation} />
+          <ChatArea
+            conversationId={selectedConversation}
+            onLeave={() => setSelectedConversation(null)}
+            focusMessageId={focusMessageId}
+            onFocused={() => setFocusMessageId(null)}
+          />
         ) : (
           <div className="flex-1 flex items-center justify-center text-muted-foreground">
             <div className="text-center">
@@ -243,44 +355,306 @@ export default function ChatPage() {
   );
 }
 
-interface Message {
-  id: number;
-  content: string;
-  senderId: number;
-  replyToId?: number;
-}
-
+// A file picked in the composer; attachment is set once the upload finishes
+type PendingUpload = { key: number; filename: string; attachment: AttachmentView | null };
 
-function ChatArea({ conversationId }: { conversationId: number }) {
+function ChatArea({
+  conversationId,
+  onLeave,
+  focusMessageId,
+  onFocused,
+}: {
+  conversationId: number;
+  onLeave: () => void;
+  focusMessageId: number | null;
+  onFocused: () => void;
+}) {
   const { user } = useAuth();
-  const { typingUsers, sendTypingStatus } = useWebSocket();
+  const { toast } = useToast();
+  const { typingUsers, sendTypingStatus } = useTyping(conversationId);
   const [isTyping, setIsTyping] = useState(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
   const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editing, setEditing] = useState<Message | null>(null);
+  const [threadRootId, setThreadRootId] = useState<number | null>(null);
+  // Message the user asked to jump to, kept until it has been loaded
+  const [jumpTargetId, setJumpTargetId] = useState<number | null>(null);
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const uploadKeyRef = useRef(0);
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
+  // Uploads removed before they finished, deleted on the server once they do
+  const discardedKeysRef = useRef(new Set<number>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const uploadedIds = uploads.flatMap(({ attachment }) => (attachment ? [attachment.id] : []));
+  const uploading = uploads.some(({ attachment }) => !attachment);
 
-  const { data: messages, isLoading } = useQuery({
-    queryKey: [`/api/conversations/${conversationId}/messages`],
+  const {
+    data,
+    isLoading,
+    fetchPreviousPage,
+    hasPreviousPage,
+    isFetchingPreviousPage,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: messagesQueryKey(conversationId),
+    queryFn: ({ pageParam }) => fetchMessagePage(conversationId, pageParam),
+    initialPageParam: {} as MessageCursor,
+    getPreviousPageParam: (firstPage): MessageCursor | undefined =>
+      firstPage.prevCursor === null ? undefined : { before: firstPage.prevCursor },
+    // Only pages loaded around a jump have newer messages after them
+    getNextPageParam: (lastPage): MessageCursor | undefined =>
+      lastPage.nextCursor === null ? undefined : { after: lastPage.nextCursor },
   });
+  const messages = data?.pages.flatMap((page) => page.messages);
+  const newestMessageId = messages?.[messages.length - 1]?.id;
+
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const scrollHeightBeforeLoadRef = useRef<number | null>(null);
+
+  function getViewport() {
+    return topSentinelRef.current?.closest<HTMLElement>("[data-radix-scroll-area-viewport]") ?? null;
+  }
+
+  // Whether the end of the list was in view before the latest render
+  const atBottomRef = useRef(true);
+  useEffect(() => {
+    const sentinel = bottomRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      atBottomRef.current = entries[0].isIntersecting;
+    }, { root: getViewport(), rootMargin: "0px 0px 80px 0px" });
 
-  const { data: conversations } = useQuery({
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [isLoading]);
+
+  // How the list ended when it was last laid out
+  const listEndRef = useRef<{ conversationId: number; newestMessageId?: number; pageCount: number } | null>(null);
+
+  // Go to the bottom when a conversation opens. A new message only scrolls the
+  // list when the user was already at the bottom or sent it, so reading
+  // history is not interrupted; neither does paging forward from a jump.
+  useLayoutEffect(() => {
+    const previous = listEndRef.current;
+    const pageCount = data?.pages.length ?? 0;
+    listEndRef.current = { conversationId, newestMessageId, pageCount };
+    if (!messages || newestMessageId === undefined || newestMessageId === previous?.newestMessageId) return;
+    if (hasNextPage) return;
+
+    const opened = previous?.conversationId !== conversationId || previous.newestMessageId === undefined;
+    // A page loaded by scrolling down also changes the newest message
+    const arrived = !opened && previous.pageCount === pageCount;
+    const own = messages[messages.length - 1].senderId === user?.id;
+    if (opened || (arrived && (atBottomRef.current || own))) {
+      bottomRef.current?.scrollIntoView({ block: "end" });
+    }
+  }, [conversationId, newestMessageId, data?.pages.length]);
+
+  // Keep the visible messages in place when older history is prepended
+  useLayoutEffect(() => {
+    const viewport = getViewport();
+    if (viewport && scrollHeightBeforeLoadRef.current !== null) {
+      viewport.scrollTop += viewport.scrollHeight - scrollHeightBeforeLoadRef.current;
+      scrollHeightBeforeLoadRef.current = null;
+    }
+  }, [data?.pages.length]);
+
+  // Load older history when the user scrolls up to the top
+  useEffect(() => {
+    const sentinel = topSentinelRef.current;
+    if (!sentinel || !hasPreviousPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingPreviousPage) {
+        scrollHeightBeforeLoadRef.current = getViewport()?.scrollHeight ?? null;
+        fetchPreviousPage();
+      }
+    }, { root: getViewport() });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasPreviousPage, isFetchingPreviousPage, fetchPreviousPage]);
+
+  // Load newer history when the user scrolls down from a jump
+  useEffect(() => {
+    const sentinel = bottomRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { root: getViewport() });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Message the page around which is being loaded for a jump
+  const loadingAroundRef = useRef<number | null>(null);
+  useEffect(() => () => {
+    loadingAroundRef.current = null;
+  }, [conversationId]);
+
+  // Scroll to the jump target. When it is outside the loaded messages, they
+  // are replaced by the page around it, which pages in both directions.
+  useEffect(() => {
+    if (jumpTargetId === null || !messages) return;
+
+    const element = getViewport()?.querySelector(`[data-message-id="${jumpTargetId}"]`);
+    if (element) {
+      element.scrollIntoView({ block: "center", behavior: "smooth" });
+      setHighlightedId(jumpTargetId);
+      setJumpTargetId(null);
+      return;
+    }
+
+    const unavailable = () => {
+      setJumpTargetId(null);
+      toast({
+        title: "Message not available",
+        description: "The original message was deleted for you or only posted in a thread.",
+      });
+    };
+    const loaded = messages.length > 0
+      && messages[0].id <= jumpTargetId
+      && jumpTargetId <= messages[messages.length - 1].id;
+    if (loaded) return unavailable();
+    if (loadingAroundRef.current === jumpTargetId) return;
+
+    const targetId = jumpTargetId;
+    loadingAroundRef.current = targetId;
+    fetchMessagePage(conversationId, { around: targetId }).then(
+      (page) => {
+        if (loadingAroundRef.current !== targetId) return;
+        loadingAroundRef.current = null;
+        if (!page.messages.some((m) => m.id === targetId)) return unavailable();
+        queryClient.setQueryData<MessagesData>(messagesQueryKey(conversationId), {
+          pages: [page],
+          pageParams: [{ around: targetId }],
+        });
+      },
+      () => {
+        if (loadingAroundRef.current !== targetId) return;
+        loadingAroundRef.current = null;
+        unavailable();
+      },
+    );
+  }, [jumpTargetId, data]);
+
+  useEffect(() => {
+    if (focusMessageId === null) return;
+    setJumpTargetId(focusMessageId);
+    onFocused();
+  }, [focusMessageId]);
+
+  // Messages pushed while the conversation is open are read straight away
+  useEffect(() => {
+    if (newestMessageId === undefined) return;
+    apiRequest("POST", `/api/conversations/${conversationId}/read`).then(
+      () => queryClient.invalidateQueries({ queryKey: mentionsQueryKey }),
+      () => {},
+    );
+  }, [conversationId, newestMessageId]);
+
+  // Uploads belong to the conversation they were made in, so leaving it
+  // discards them
+  useEffect(() => () => {
+    discardUploads(uploadsRef.current);
+    setUploads([]);
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (highlightedId === null) return;
+    const timeout = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  const { data: conversations } = useQuery<ConversationWithParticipants[]>({
     queryKey: ["/api/conversations"],
   });
 
-  const currentConversation = conversations?.find((conv: any) => conv.id === conversationId);
+  const { data: pins = [] } = useQuery<PinView[]>({
+    queryKey: pinsQueryKey(conversationId),
+  });
+  const pinnedIds = new Set(pins.map((pin) => pin.message.id));
+
+  const currentConversation = conversations?.find((conv) => conv.id === conversationId);
   const otherUser = currentConversation?.otherUser;
+  const presence = usePresence();
+  const otherPresence = otherUser ? presence.get(otherUser.id) : undefined;
+  const otherStatus = otherUser ? presenceLabel(otherUser, otherPresence) : null;
+  const participantsById = new Map(currentConversation?.participants.map((p) => [p.id, p]));
+  const typingNames = currentConversation?.participants
+    .filter((p) => p.id !== user?.id && typingUsers[p.id])
+    .map((p) => p.username) ?? [];
 
   const sendMessageMutation = useMutation({
-    mutationFn: async ({ content, replyToId }: { content: string; replyToId?: number }) => {
+    mutationFn: async ({
+      content,
+      replyToId,
+      attachmentIds,
+      kind,
+    }: {
+      content: string;
+      replyToId?: number;
+      attachmentIds?: number[];
+      kind?: MessageKind;
+    }) => {
       const res = await apiRequest(
         "POST",
         `/api/conversations/${conversationId}/messages`,
-        { content, replyToId }
+        { content, replyToId, attachmentIds, kind }
       );
-      return res.json();
+      return res.json() as Promise<MessageView>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: [`/api/conversations/${conversationId}/messages`],
+    onSuccess: (message) => {
+      // Sending from further up the history goes back to the newest messages
+      if (hasNextPage) queryClient.resetQueries({ queryKey: messagesQueryKey(conversationId) });
+      else addCachedMessage(message);
+    },
+  });
+
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: number; content: string }) => {
+      const res = await apiRequest(
+        "PATCH",
+        `/api/conversations/${conversationId}/messages/${messageId}`,
+        { content }
+      );
+      return res.json() as Promise<MessageView>;
+    },
+    onSuccess: replaceCachedMessage,
+  });
+
+  const deleteMessageMutation = useMutation({
+    mutationFn: async ({ message, scope }: { message: Message; scope: DeleteScope }) => {
+      const res = await apiRequest(
+        "DELETE",
+        `/api/conversations/${conversationId}/messages/${message.id}?scope=${scope}`
+      );
+      // Deleting for everyone returns the tombstone; deleting for me returns nothing
+      return scope === "everyone" ? (res.json() as Promise<MessageView>) : null;
+    },
+    onSuccess: (tombstone, { message }) => {
+      if (tombstone) {
+        replaceCachedMessage(tombstone);
+      } else {
+        removeCachedMessage(message);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete message",
+        description: error.message,
+        variant: "destructive",
       });
     },
   });
@@ -308,21 +682,184 @@ function ChatArea({ conversationId }: { conversationId: number }) {
     }, 1000);
   };
 
+  const reactionMutation = useMutation({
+    mutationFn: async ({ messageId, emoji, remove }: { messageId: number; emoji: string; remove: boolean }) => {
+      const url = `/api/conversations/${conversationId}/messages/${messageId}/reactions`;
+      const res = remove
+        ? await apiRequest("DELETE", `${url}/${encodeURIComponent(emoji)}`)
+        : await apiRequest("POST", url, { emoji });
+      return res.json() as Promise<ReactionSummary[]>;
+    },
+    onSuccess: (reactions, { messageId }) => {
+      updateCachedMessage(conversationId, messageId, (message) => ({ ...message, reactions }));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update reaction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: async ({ messageId, pinned }: { messageId: number; pinned: boolean }) => {
+      const url = `/api/conversations/${conversationId}/messages/${messageId}/pin`;
+      if (pinned) {
+        await apiRequest("DELETE", url);
+        return null;
+      }
+      const res = await apiRequest("POST", url);
+      return res.json() as Promise<PinView>;
+    },
+    onSuccess: (pin, { messageId }) => {
+      if (pin) addCachedPin(conversationId, pin);
+      else removeCachedPin(conversationId, messageId);
+    },
+    onError: (error: Error, { pinned }) => {
+      toast({
+        title: pinned ? "Failed to unpin message" : "Failed to pin message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (message: Message) => {
+    setReplyTo(null);
+    setEditing(message);
+    form.setValue("content", message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    form.reset();
+  };
+
+  // Only uses refs, so it is safe to call from effect cleanups
+  const discardUploads = (dropped: PendingUpload[]) => {
+    dropped.forEach(({ key, attachment }) => {
+      if (attachment) discardAttachment(attachment.id);
+      else discardedKeysRef.current.add(key);
+    });
+  };
+
+  const removeUpload = (removed: PendingUpload) => {
+    discardUploads([removed]);
+    setUploads((current) => current.filter(({ key }) => key !== removed.key));
+  };
+
+  const addFiles = (files: File[]) => {
+    const room = maxAttachmentsPerMessage - uploads.length;
+    if (files.length > room) {
+      toast({
+        title: "Too many files",
+        description: `A message can have up to ${maxAttachmentsPerMessage} attachments.`,
+        variant: "destructive",
+      });
+    }
+
+    files.slice(0, Math.max(room, 0)).forEach((file) => {
+      if (!isAttachableFile(file)) {
+        toast({
+          title: `${file.name} can't be attached`,
+          description: "Images, PDFs, text, office documents and zip files are supported.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const key = ++uploadKeyRef.current;
+      setUploads((current) => [...current, { key, filename: file.name, attachment: null }]);
+      uploadAttachment(conversationId, file).then(
+        (attachment) => {
+          if (discardedKeysRef.current.delete(key)) return discardAttachment(attachment.id);
+          setUploads((current) => current.map((upload) => (upload.key === key ? { ...upload, attachment } : upload)));
+        },
+        (error: Error) => {
+          if (discardedKeysRef.current.delete(key)) return;
+          setUploads((current) => current.filter((upload) => upload.key !== key));
+          toast({
+            title: `Failed to upload ${file.name}`,
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      );
+    });
+  };
+
+  const [sendingVoice, setSendingVoice] = useState(false);
+  const voiceRecorder = useVoiceRecorder(async ({ file, durationMs, waveform }) => {
+    setSendingVoice(true);
+    try {
+      const attachment = await uploadAttachment(conversationId, file, { durationMs, waveform });
+      await sendMessageMutation.mutateAsync({
+        content: "",
+        replyToId: replyTo?.id,
+        attachmentIds: [attachment.id],
+        kind: "audio",
+      });
+      setReplyTo(null);
+    } catch (error) {
+      toast({
+        title: "Failed to send voice message",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSendingVoice(false);
+    }
+  });
+
+  const startRecording = async () => {
+    try {
+      await voiceRecorder.start();
+    } catch {
+      toast({
+        title: "Microphone unavailable",
+        description: "Allow microphone access in your browser to record voice messages.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const onSubmit = async (data: { content: string }) => {
-    if (!data.content.trim()) {
+    if (!data.content.trim() && (editing || uploadedIds.length === 0)) {
       form.setError("content", { message: "Message cannot be empty" });
       return;
     }
 
-    await sendMessageMutation.mutate({
-      content: data.content.trim(),
-      replyToId: replyTo?.id
-    });
-
-    form.reset();
-    setReplyTo(null);
     setIsTyping(false);
     sendTypingStatus(conversationId, false);
+
+    if (editing) {
+      editMessageMutation.mutate({ messageId: editing.id, content: data.content.trim() });
+      form.reset();
+      setEditing(null);
+      return;
+    }
+
+    // The composer keeps the text and attachments until the message is sent,
+    // so a failed send can be retried
+    sendMessageMutation.mutate({
+      content: data.content.trim(),
+      replyToId: replyTo?.id,
+      attachmentIds: uploadedIds.length > 0 ? uploadedIds : undefined,
+    }, {
+      onSuccess: () => {
+        form.reset();
+        setReplyTo(null);
+        setUploads([]);
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "Failed to send message",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
   };
 
   if (isLoading) {
@@ -333,107 +870,137 @@ function ChatArea({ conversationId }: { conversationId: number }) {
     );
   }
 
-  function ChatMessage({ message, onReply }: { message: Message, onReply: () => void }) {
-    const controls = useAnimation();
-    const isSentByMe = message.senderId === user?.id;
-
-    const handleDragEnd = async (event: any, info: PanInfo) => {
-      const threshold = 100;
-      if (info.offset.x > threshold) {
-        await controls.start({ x: 0 });
-        onReply();
-      } else {
-        await controls.start({ x: 0 });
-      }
-    };
-
-    return (
-      <motion.div
-        drag="x"
-        dragConstraints={{ left: 0, right: 100 }}
-        onDragEnd={handleDragEnd}
-        animate={controls}
-        className={`flex ${isSentByMe ? "justify-end" : "justify-start"}`}
-      >
-        <div
-          className={`max-w-[70%] space-y-1 ${
-            isSentByMe ? "items-end" : "items-start"
-          }`}
-        >
-          {message.replyToId && messages?.find(m => m.id === message.replyToId) && (
-            <div
-              className={`text-xs px-4 py-1 rounded-lg ${
-                isSentByMe
-                  ? "bg-primary/10 text-primary"
-                  : "bg-accent/50 text-accent-foreground"
-              }`}
-            >
-              <MessageCircle className="h-3 w-3 inline-block mr-1" />
-              Replying to: {messages.find(m => m.id === message.replyToId)?.content}
-            </div>
-          )}
-          <div
-            className={`px-4 py-2 rounded-lg ${
-              isSentByMe
-                ? "bg-primary text-primary-foreground"
-                : "bg-accent"
-            }`}
-          >
-            {message.content}
+  return (
+    <div
+      className="relative flex-1 flex flex-col min-h-0"
+      onDragOver={(e) => {
+        if (editing || !e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setDraggingFiles(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDraggingFiles(false);
+      }}
+      onDrop={(e) => {
+        if (!draggingFiles) return;
+        e.preventDefault();
+        setDraggingFiles(false);
+        addFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      {draggingFiles && (
+        <div className="pointer-events-none absolute inset-0 z-20 flex items-center justify-center border-2 border-dashed border-primary bg-background/80">
+          <div className="flex items-center gap-2 text-primary">
+            <Upload className="h-5 w-5" />
+            Drop files to attach them
           </div>
         </div>
-      </motion.div>
-    );
-  }
-
-
-  return (
-    <>
+      )}
       {/* Chat Header */}
       <div className="p-4 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="relative">
-              <div className="h-9 w-9 rounded-full bg-primary/10 flex items-center justify-center overflow-hidden">
-                {otherUser?.profilePicture ? (
-                  <img
-                    src={otherUser.profilePicture}
-                    alt={otherUser.username}
-                    className="h-full w-full object-cover"
-                  />
-                ) : (
-                  <User className="h-5 w-5 text-primary" />
-                )}
-              </div>
-              {otherUser && typingUsers[otherUser.id] && (
-                <div className="absolute -bottom-1 -right-1 h-3 w-3 rounded-full bg-green-500" />
-              )}
+              {currentConversation && <ConversationAvatar conversation={currentConversation} />}
+              {otherUser && <PresenceDot presence={otherPresence} />}
             </div>
-            <div>
-              <h3 className="font-medium">{otherUser?.username}</h3>
-              {otherUser && typingUsers[otherUser.id] && (
-                <p className="text-xs text-muted-foreground">typing...</p>
+            <div className="min-w-0">
+              <h3 className="font-medium">{currentConversation && conversationTitle(currentConversation)}</h3>
+              {typingNames.length > 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  {currentConversation?.isGroup ? `${typingNames.join(", ")} typing...` : "typing..."}
+                </p>
+              ) : currentConversation?.isGroup ? (
+                <p className="text-xs text-muted-foreground truncate">
+                  {currentConversation.participants.map((p) => p.username).join(", ")}
+                </p>
+              ) : otherStatus && (
+                <p className="text-xs text-muted-foreground">{otherStatus}</p>
               )}
             </div>
           </div>
+          {currentConversation?.isGroup && (
+            <GroupMembersDialog conversation={currentConversation} onLeave={onLeave} />
+          )}
         </div>
+        {pins.length > 0 && (
+          <PinnedMessageBar
+            key={conversationId}
+            pins={pins}
+            onJump={(messageId) => setJumpTargetId(messageId)}
+            onUnpin={(messageId) => pinMutation.mutate({ messageId, pinned: true })}
+          />
+        )}
       </div>
 
       {/* Messages */}
       <ScrollArea className="flex-1 p-4">
         <div className="space-y-4">
-          {messages?.map((message: any) => (
+          <div ref={topSentinelRef} />
+          {isFetchingPreviousPage && (
+            <div className="flex justify-center">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {messages?.map((message) => (
             <ChatMessage
               key={message.id}
               message={message}
-              onReply={() => setReplyTo(message)}
+              highlighted={message.id === highlightedId}
+              senderName={
+                currentConversation?.isGroup
+                  ? participantsById.get(message.senderId)?.username ?? "Former member"
+                  : undefined
+              }
+              onReply={() => {
+                cancelEditing();
+                setReplyTo(message);
+              }}
+              onEdit={() => startEditing(message)}
+              onDelete={(scope) => deleteMessageMutation.mutate({ message, scope })}
+              participantsById={participantsById}
+              onToggleReaction={(emoji, remove) =>
+                reactionMutation.mutate({ messageId: message.id, emoji, remove })
+              }
+              onOpenThread={() => setThreadRootId(message.id)}
+              onJumpToReply={() => message.replyTo && setJumpTargetId(message.replyTo.id)}
+              pinned={pinnedIds.has(message.id)}
+              onTogglePin={() => pinMutation.mutate({ messageId: message.id, pinned: pinnedIds.has(message.id) })}
             />
           ))}
+          {isFetchingNextPage && (
+            <div className="flex justify-center">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          <div ref={bottomRef} />
         </div>
       </ScrollArea>
 
+      <ThreadPanel
+        conversationId={conversationId}
+        rootId={threadRootId}
+        participantsById={participantsById}
+        onClose={() => setThreadRootId(null)}
+      />
+
       {/* Message Input */}
       <div className="p-4 border-t">
+        {editing && (
+          <div className="mb-2 p-2 rounded bg-accent/50 flex items-center justify-between">
+            <div className="flex items-center gap-2 text-sm">
+              <Pencil className="h-4 w-4" />
+              <span>Editing message</span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={cancelEditing}
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
         {replyTo && (
           <div className="mb-2 p-2 rounded bg-accent/50 flex items-center justify-between">
             <div className="flex items-center gap-2 text-sm">
@@ -449,45 +1016,952 @@ function ChatArea({ conversationId }: { conversationId: number }) {
             </Button>
           </div>
         )}
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="flex gap-2">
-            <FormField
-              control={form.control}
-              name="content"
-              render={({ field }) => (
-                <FormItem className="flex-1">
-                  <FormControl>
-                    <Input
-                      placeholder="Type a message..."
-                      {...field}
-                      disabled={sendMessageMutation.isPending}
-                      onChange={(e) => {
-                        field.onChange(e);
-                        handleTyping();
-                      }}
-                    />
-                  </FormControl>
-                  <div className="text-sm text-destructive">
-                    {form.formState.errors.content?.message}
-                  </div>
-                </FormItem>
-              )}
-            />
+        <FormattingToolbar
+          inputRef={composerRef}
+          value={form.watch("content")}
+          onValueChange={(value) => form.setValue("content", value)}
+          preview={showPreview}
+          onTogglePreview={() => setShowPreview(!showPreview)}
+        />
+        {showPreview && form.watch("content").trim() && (
+          <div className="mb-2 max-h-48 overflow-y-auto rounded border p-2 text-sm">
+            <MessageContent content={form.watch("content")} participantsById={participantsById} />
+          </div>
+        )}
+        {uploads.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-1">
+            {uploads.map((upload) => (
+              <PendingAttachment
+                key={upload.key}
+                filename={upload.filename}
+                uploading={!upload.attachment}
+                onRemove={() => removeUpload(upload)}
+              />
+            ))}
+          </div>
+        )}
+        {voiceRecorder.recording || sendingVoice ? (
+          <div className="flex items-center gap-2">
             <Button
-              type="submit"
-              disabled={sendMessageMutation.isPending || !form.watch("content").trim()}
+              type="button"
+              variant="ghost"
               size="icon"
+              title="Discard recording"
+              disabled={!voiceRecorder.recording}
+              onClick={voiceRecorder.cancel}
             >
-              {sendMessageMutation.isPending ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <div className="flex flex-1 items-center gap-2 text-sm">
+              {voiceRecorder.recording ? (
+                <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
               ) : (
-                <Send className="h-4 w-4" />
+                <Loader2 className="h-4 w-4 animate-spin" />
               )}
+              <span className="tabular-nums">{formatDuration(voiceRecorder.elapsedMs)}</span>
+              <span className="text-muted-foreground">
+                {voiceRecorder.recording ? "Recording..." : "Sending voice message..."}
+              </span>
+            </div>
+            <Button
+              type="button"
+              size="icon"
+              title="Send voice message"
+              disabled={!voiceRecorder.recording}
+              onClick={voiceRecorder.stop}
+            >
+              <Send className="h-4 w-4" />
             </Button>
-          </form>
-        </Form>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="flex items-end gap-2">
+              {!editing && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={attachmentAccept}
+                    className="hidden"
+                    onChange={(e) => {
+                      addFiles(Array.from(e.target.files ?? []));
+                      e.target.value = "";
+                    }}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Attach files"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Paperclip className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" title="Record voice message" onClick={startRecording}>
+                    <Mic className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+              <FormField
+                control={form.control}
+                name="content"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <MentionInput
+                        inputRef={composerRef}
+                        placeholder="Type a message..."
+                        name={field.name}
+                        value={field.value}
+                        onBlur={field.onBlur}
+                        members={currentConversation?.participants.filter((p) => p.id !== user?.id) ?? []}
+                        disabled={sendMessageMutation.isPending || editMessageMutation.isPending}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          handleTyping();
+                        }}
+                      />
+                    </FormControl>
+                    <div className="text-sm text-destructive">
+                      {form.formState.errors.content?.message}
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                disabled={
+                  sendMessageMutation.isPending ||
+                  editMessageMutation.isPending ||
+                  uploading ||
+                  (!form.watch("content").trim() && (!!editing || uploadedIds.length === 0))
+                }
+                size="icon"
+              >
+                {sendMessageMutation.isPending || editMessageMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Shows one pin at a time, newest first. Clicking it jumps to the message and
+// moves on to the next pin, wrapping around after the oldest.
+function PinnedMessageBar({
+  pins,
+  onJump,
+  onUnpin,
+}: {
+  pins: PinView[];
+  onJump: (messageId: number) => void;
+  onUnpin: (messageId: number) => void;
+}) {
+  const [index, setIndex] = useState(0);
+  // Pins can be removed from under the bar
+  const current = pins[Math.min(index, pins.length - 1)];
+  const position = pins.indexOf(current);
+  const { message } = current;
+
+  return (
+    <div className="mt-3 flex items-center gap-2 rounded-md border-l-2 border-primary bg-accent/50 pl-2">
+      <button
+        type="button"
+        className="flex min-w-0 flex-1 items-center gap-2 py-1 text-left text-sm hover:opacity-80"
+        onClick={() => {
+          onJump(message.id);
+          setIndex((position + 1) % pins.length);
+        }}
+        title="Jump to pinned message"
+      >
+        <Pin className="h-4 w-4 shrink-0 text-primary" />
+        <div className="min-w-0">
+          <div className="text-xs font-medium text-primary">
+            {pins.length === 1 ? "Pinned message" : `Pinned message ${position + 1} of ${pins.length}`}
+          </div>
+          <div className="truncate">
+            {messageExcerpt(message.content) || (
+              <span className="italic">{message.kind === "audio" ? "Voice message" : "Attachment"}</span>
+            )}
+          </div>
+        </div>
+      </button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        title="Unpin message"
+        onClick={() => onUnpin(message.id)}
+      >
+        <PinOff className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+type DeleteScope = "me" | "everyone";
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+function ChatMessage({
+  message,
+  highlighted,
+  senderName,
+  participantsById,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  onOpenThread,
+  onJumpToReply,
+  pinned,
+  onTogglePin,
+}: {
+  message: MessageView;
+  // Briefly set after jumping to this message from a reply quote
+  highlighted: boolean;
+  // Shown above messages from others in group conversations
+  senderName?: string;
+  participantsById: Map<number, PublicUser>;
+  onReply: () => void;
+  onEdit: () => void;
+  onDelete: (scope: DeleteScope) => void;
+  onToggleReaction: (emoji: string, remove: boolean) => void;
+  onOpenThread: () => void;
+  onJumpToReply: () => void;
+  pinned: boolean;
+  onTogglePin: () => void;
+}) {
+  const { user } = useAuth();
+  const { replyTo } = message;
+  const controls = useAnimation();
+  const isSentByMe = message.senderId === user?.id;
+  const reactedByMe = (reaction: ReactionSummary) => !!user && reaction.userIds.includes(user.id);
+  const bubbleClassName = `px-4 py-2 rounded-lg ${isSentByMe ? "bg-primary text-primary-foreground" : "bg-accent"}`;
+
+  const handleDragEnd = async (event: any, info: PanInfo) => {
+    const threshold = 100;
+    if (info.offset.x > threshold) {
+      await controls.start({ x: 0 });
+      onReply();
+    } else {
+      await controls.start({ x: 0 });
+    }
+  };
+
+  return (
+    <motion.div
+      drag="x"
+      dragConstraints={{ left: 0, right: 100 }}
+      onDragEnd={handleDragEnd}
+      animate={controls}
+      data-message-id={message.id}
+      className={`group flex rounded-lg transition-colors duration-700 ${
+        isSentByMe ? "justify-end" : "justify-start"
+      } ${highlighted ? "bg-primary/10" : ""}`}
+    >
+      <div
+        className={`max-w-[70%] space-y-1 flex flex-col ${
+          isSentByMe ? "items-end" : "items-start"
+        }`}
+      >
+        {senderName && !isSentByMe && (
+          <div className="text-xs text-muted-foreground px-1">{senderName}</div>
+        )}
+        {replyTo && (
+          <button
+            type="button"
+            onClick={onJumpToReply}
+            className={`max-w-full text-left text-xs px-4 py-1 rounded-lg border-l-2 border-primary/50 hover:opacity-80 ${
+              isSentByMe
+                ? "bg-primary/10 text-primary"
+                : "bg-accent/50 text-accent-foreground"
+            }`}
+          >
+            <div className="font-medium">
+              <MessageCircle className="h-3 w-3 inline-block mr-1" />
+              {replyTo.senderId === user?.id ? "You" : replyTo.senderName}
+            </div>
+            {replyTo.deleted ? (
+              <span className="italic">This message was deleted</span>
+            ) : (
+              <div className="truncate">
+                {replyTo.excerpt || (
+                  <span className="italic">{replyTo.kind === "audio" ? "Voice message" : "Attachment"}</span>
+                )}
+              </div>
+            )}
+          </button>
+        )}
+        <div className={`flex items-center gap-1 ${isSentByMe ? "" : "flex-row-reverse"}`}>
+          {!message.deletedAt && (
+            <ReactionPicker
+              align={isSentByMe ? "end" : "start"}
+              onPick={(emoji) => {
+                onToggleReaction(emoji, message.reactions.some((r) => r.emoji === emoji && reactedByMe(r)));
+              }}
+            />
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                title="Message actions"
+              >
+                <MoreHorizontal className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align={isSentByMe ? "end" : "start"}>
+              {!message.deletedAt && (
+                <DropdownMenuItem onSelect={onOpenThread}>
+                  <MessagesSquare className="h-4 w-4 mr-2" />
+                  Reply in thread
+                </DropdownMenuItem>
+              )}
+              {!message.deletedAt && (
+                <DropdownMenuItem onSelect={onTogglePin}>
+                  {pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                  {pinned ? "Unpin" : "Pin"}
+                </DropdownMenuItem>
+              )}
+              {isSentByMe && !message.deletedAt && (
+                <DropdownMenuItem onSelect={onEdit}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onSelect={() => onDelete("me")}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete for me
+              </DropdownMenuItem>
+              {isSentByMe && !message.deletedAt && (
+                <DropdownMenuItem onSelect={() => onDelete("everyone")} className="text-destructive">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete for everyone
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {message.deletedAt ? (
+            <div className="px-4 py-2 rounded-lg border border-dashed text-sm italic text-muted-foreground">
+              This message was deleted
+            </div>
+          ) : (
+            <div className={`min-w-0 flex flex-col gap-1 ${isSentByMe ? "items-end" : "items-start"}`}>
+              {message.kind === "audio" && message.attachments[0] ? (
+                <div className={bubbleClassName}>
+                  <VoiceMessage attachment={message.attachments[0]} />
+                </div>
+              ) : (
+                <>
+                  {message.content && (
+                    <div className={bubbleClassName}>
+                      <MessageContent content={message.content} participantsById={participantsById} />
+                    </div>
+                  )}
+                  {message.attachments.length > 0 && <AttachmentList attachments={message.attachments} />}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+        {message.reactions.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {message.reactions.map((reaction) => {
+              const mine = reactedByMe(reaction);
+              return (
+                <HoverCard key={reaction.emoji} openDelay={200}>
+                  <HoverCardTrigger asChild>
+                    <button
+                      type="button"
+                      className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+                        mine ? "border-primary bg-primary/10" : "bg-background hover:bg-accent"
+                      }`}
+                      onClick={() => onToggleReaction(reaction.emoji, mine)}
+                    >
+                      <span>{reaction.emoji}</span>
+                      <span>{reaction.userIds.length}</span>
+                    </button>
+                  </HoverCardTrigger>
+                  <HoverCardContent className="w-auto max-w-64 text-sm">
+                    <span className="mr-1">{reaction.emoji}</span>
+                    {reaction.userIds
+                      .map((id) => (id === user?.id ? "You" : participantsById.get(id)?.username ?? "Former member"))
+                      .join(", ")}
+                  </HoverCardContent>
+                </HoverCard>
+              );
+            })}
+          </div>
+        )}
+        {message.replyCount > 0 && (
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-primary px-1 hover:underline"
+            onClick={onOpenThread}
+          >
+            <MessagesSquare className="h-3 w-3" />
+            {message.replyCount === 1 ? "1 reply" : `${message.replyCount} replies`}
+          </button>
+        )}
+        {message.editedAt && !message.deletedAt && <EditHistory message={message} />}
       </div>
-    </>
+    </motion.div>
+  );
+}
+
+// Side panel with a message and all of its replies. Replies sent from here are
+// thread-only, so they do not show up in the main conversation.
+function ThreadPanel({
+  conversationId,
+  rootId,
+  participantsById,
+  onClose,
+}: {
+  conversationId: number;
+  rootId: number | null;
+  participantsById: Map<number, PublicUser>;
+  onClose: () => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [content, setContent] = useState("");
+  const queryKey = threadQueryKey(conversationId, rootId ?? 0);
+
+  const { data: thread, isLoading } = useQuery<ThreadView>({
+    queryKey,
+    enabled: rootId !== null,
+  });
+
+  // Keep the count in the main list in step with what the thread shows
+  useEffect(() => {
+    if (!thread) return;
+    updateCachedMessage(conversationId, thread.root.id, (message) => ({
+      ...message,
+      replyCount: thread.root.replyCount,
+    }));
+  }, [conversationId, thread]);
+
+  const replyMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest("POST", `/api/conversations/${conversationId}/messages`, {
+        content,
+        replyToId: rootId,
+        threadOnly: true,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setContent("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send reply",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={rootId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Thread</SheetTitle>
+        </SheetHeader>
+        {isLoading || !thread ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <ScrollArea className="flex-1 -mx-2 px-2">
+              <div className="space-y-3">
+                <ThreadMessage message={thread.root} participantsById={participantsById} />
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>{thread.replies.length === 1 ? "1 reply" : `${thread.replies.length} replies`}</span>
+                  <Separator className="flex-1" />
+                </div>
+                {thread.replies.map((reply) => (
+                  <ThreadMessage key={reply.id} message={reply} participantsById={participantsById} />
+                ))}
+              </div>
+            </ScrollArea>
+            <form
+              className="flex gap-2 pt-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (content.trim()) replyMutation.mutate(content.trim());
+              }}
+            >
+              <MentionInput
+                placeholder="Reply in thread..."
+                value={content}
+                onValueChange={setContent}
+                members={Array.from(participantsById.values()).filter((p) => p.id !== user?.id)}
+                disabled={replyMutation.isPending}
+              />
+              <Button type="submit" size="icon" disabled={replyMutation.isPending || !content.trim()}>
+                {replyMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </form>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function ThreadMessage({
+  message,
+  participantsById,
+}: {
+  message: MessageView;
+  participantsById: Map<number, PublicUser>;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline gap-2">
+        <span className="text-sm font-medium">
+          {participantsById.get(message.senderId)?.username ?? "Former member"}
+        </span>
+        <span className="text-xs text-muted-foreground">{format(new Date(message.timestamp), "PPp")}</span>
+      </div>
+      {message.deletedAt ? (
+        <div className="text-sm italic text-muted-foreground">This message was deleted</div>
+      ) : (
+        <div className="text-sm break-words">
+          <MessageContent content={message.content} participantsById={participantsById} />
+          {message.editedAt && <span className="ml-1 text-xs text-muted-foreground">(edited)</span>}
+          {message.attachments.length > 0 && <AttachmentList attachments={message.attachments} className="mt-1" />}
+        </div>
+      )}
+      {message.reactions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {message.reactions.map((reaction) => (
+            <span key={reaction.emoji} className="rounded-full border px-2 py-0.5 text-xs">
+              {reaction.emoji} {reaction.userIds.length}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Message Markdown with @mentions of conversation members picked out
+function MessageContent({
+  content,
+  participantsById,
+}: {
+  content: string;
+  participantsById: Map<number, PublicUser>;
+}) {
+  const { user } = useAuth();
+  const usernames = new Set(Array.from(participantsById.values(), (p) => p.username));
+
+  function highlightMentions(text: string): ReactNode {
+    const parts: ReactNode[] = [];
+    let end = 0;
+
+    Array.from(text.matchAll(mentionPattern)).forEach((match) => {
+      const username = match[2];
+      if (!usernames.has(username)) return;
+      const start = match.index! + match[1].length;
+      parts.push(text.slice(end, start));
+      parts.push(
+        <span
+          key={start}
+          className={`font-semibold rounded px-0.5 ${
+            username === user?.username ? "bg-yellow-300/60 dark:bg-yellow-500/40" : "bg-background/20"
+          }`}
+        >
+          @{username}
+        </span>,
+      );
+      end = start + username.length + 1;
+    });
+    parts.push(text.slice(end));
+
+    return parts;
+  }
+
+  return <Markdown content={content} renderText={highlightMentions} />;
+}
+
+type MarkdownFormat = "bold" | "italic" | "strike" | "code" | "codeBlock" | "quote" | "bullets" | "numbers";
+
+const INLINE_MARKERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: "**",
+  italic: "*",
+  strike: "~~",
+  code: "`",
+};
+
+// Applies a format to the selected text, returning the new value and the range
+// to select afterwards
+function applyMarkdownFormat(value: string, start: number, end: number, format: MarkdownFormat) {
+  const selected = value.slice(start, end);
+  const marker = INLINE_MARKERS[format];
+  if (marker) {
+    const text = selected || "text";
+    return {
+      value: value.slice(0, start) + marker + text + marker + value.slice(end),
+      start: start + marker.length,
+      end: start + marker.length + text.length,
+    };
+  }
+
+  if (format === "codeBlock") {
+    const before = value.slice(0, start);
+    const opening = `${before && !before.endsWith("\n") ? "\n" : ""}\`\`\`\n`;
+    const text = selected || "code";
+    return {
+      value: before + opening + text + "\n```\n" + value.slice(end),
+      start: start + opening.length,
+      end: start + opening.length + text.length,
+    };
+  }
+
+  // Line formats apply to every line the selection touches
+  const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = value.indexOf("\n", end) === -1 ? value.length : value.indexOf("\n", end);
+  const lines = value
+    .slice(lineStart, lineEnd)
+    .split("\n")
+    .map((line, index) => (format === "quote" ? "> " : format === "bullets" ? "- " : `${index + 1}. `) + line)
+    .join("\n");
+  return {
+    value: value.slice(0, lineStart) + lines + value.slice(lineEnd),
+    start: lineStart,
+    end: lineStart + lines.length,
+  };
+}
+
+const FORMAT_BUTTONS: { format: MarkdownFormat; label: string; icon: typeof Bold }[] = [
+  { format: "bold", label: "Bold", icon: Bold },
+  { format: "italic", label: "Italic", icon: Italic },
+  { format: "strike", label: "Strikethrough", icon: Strikethrough },
+  { format: "code", label: "Inline code", icon: Code },
+  { format: "codeBlock", label: "Code block", icon: SquareCode },
+  { format: "quote", label: "Quote", icon: Quote },
+  { format: "bullets", label: "Bulleted list", icon: List },
+  { format: "numbers", label: "Numbered list", icon: ListOrdered },
+];
+
+function FormattingToolbar({
+  inputRef,
+  value,
+  onValueChange,
+  preview,
+  onTogglePreview,
+}: {
+  inputRef: RefObject<HTMLTextAreaElement>;
+  value: string;
+  onValueChange: (value: string) => void;
+  preview: boolean;
+  onTogglePreview: () => void;
+}) {
+  function format(markdownFormat: MarkdownFormat) {
+    const input = inputRef.current;
+    if (!input) return;
+    const result = applyMarkdownFormat(value, input.selectionStart, input.selectionEnd, markdownFormat);
+    onValueChange(result.value);
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(result.start, result.end);
+    });
+  }
+
+  return (
+    <div className="mb-2 flex items-center gap-0.5">
+      {FORMAT_BUTTONS.map(({ format: markdownFormat, label, icon: Icon }) => (
+        <Button
+          key={markdownFormat}
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title={label}
+          // Keeps the selection in the message box
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => format(markdownFormat)}
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </Button>
+      ))}
+      <Button
+        type="button"
+        variant={preview ? "secondary" : "ghost"}
+        size="sm"
+        className="ml-auto h-7"
+        onClick={onTogglePreview}
+      >
+        {preview ? <EyeOff className="h-3.5 w-3.5 mr-1" /> : <Eye className="h-3.5 w-3.5 mr-1" />}
+        Preview
+      </Button>
+    </div>
+  );
+}
+
+const MAX_MENTION_SUGGESTIONS = 5;
+
+// Message box that suggests members to mention while an @word is being typed.
+// Enter sends the surrounding form; Shift+Enter starts a new line.
+function MentionInput({
+  value,
+  onValueChange,
+  members,
+  inputRef: externalRef,
+  ...props
+}: Omit<ComponentProps<typeof Textarea>, "value" | "onChange"> & {
+  value: string;
+  onValueChange: (value: string) => void;
+  members: PublicUser[];
+  inputRef?: RefObject<HTMLTextAreaElement>;
+}) {
+  const ownRef = useRef<HTMLTextAreaElement>(null);
+  const inputRef = externalRef ?? ownRef;
+  // Where the @ of the word being completed starts, and what follows it so far
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = mention
+    ? members
+        .filter((member) => member.username.toLowerCase().startsWith(mention.query.toLowerCase()))
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  function updateMention(text: string, caret: number | null) {
+    const match = caret === null ? null : /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret));
+    setMention(match ? { start: match.index + match[1].length, query: match[2] } : null);
+    setActiveIndex(0);
+  }
+
+  function complete(username: string) {
+    if (!mention) return;
+    const before = value.slice(0, mention.start);
+    const after = value.slice(mention.start + mention.query.length + 1);
+    const inserted = `@${username} `;
+    onValueChange(before + inserted + after.replace(/^\s+/, ""));
+    setMention(null);
+
+    const caret = before.length + inserted.length;
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(caret, caret));
+  }
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={inputRef}
+        value={value}
+        rows={1}
+        autoComplete="off"
+        className="min-h-10 max-h-40 resize-none"
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={(e) => {
+          if (suggestions.length > 0) {
+            if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+              e.preventDefault();
+              const step = e.key === "ArrowDown" ? 1 : -1;
+              setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+              return;
+            }
+            if (e.key === "Enter" || e.key === "Tab") {
+              e.preventDefault();
+              complete(suggestions[activeIndex].username);
+              return;
+            }
+            if (e.key === "Escape") {
+              e.preventDefault();
+              setMention(null);
+              return;
+            }
+          }
+          if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            e.currentTarget.form?.requestSubmit();
+            return;
+          }
+          props.onKeyDown?.(e);
+        }}
+        onBlur={(e) => {
+          setMention(null);
+          props.onBlur?.(e);
+        }}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute bottom-full left-0 mb-1 w-56 rounded-md border bg-popover p-1 shadow-md z-10">
+          {suggestions.map((member, index) => (
+            <button
+              key={member.id}
+              type="button"
+              className={`flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-left ${
+                index === activeIndex ? "bg-accent" : ""
+              }`}
+              // Keeps focus in the input so onBlur does not close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                complete(member.username);
+              }}
+            >
+              <AtSign className="h-3 w-3 text-muted-foreground" />
+              {member.username}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Unread messages that mention the current user, across all conversations
+function MentionsMenu({
+  mentions,
+  conversations,
+  onSelect,
+}: {
+  mentions: MessageView[];
+  conversations: ConversationWithParticipants[];
+  onSelect: (mention: MessageView) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const conversationsById = new Map(conversations.map((conv) => [conv.id, conv]));
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title="Mentions" className="relative">
+          <AtSign className="h-4 w-4" />
+          {mentions.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 rounded-full bg-primary text-primary-foreground text-[10px] leading-4 px-1">
+              {mentions.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="px-3 py-2 border-b text-sm font-medium">Mentions</div>
+        {mentions.length === 0 ? (
+          <p className="px-3 py-4 text-sm text-muted-foreground">No unread mentions</p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            {mentions.map((mention) => {
+              const conversation = conversationsById.get(mention.conversationId);
+              const sender = conversation?.participants.find((p) => p.id === mention.senderId);
+              return (
+                <button
+                  key={mention.id}
+                  type="button"
+                  className="w-full px-3 py-2 text-left hover:bg-accent space-y-0.5"
+                  onClick={() => {
+                    setOpen(false);
+                    onSelect(mention);
+                  }}
+                >
+                  <div className="flex items-baseline justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="truncate">
+                      <span className="font-medium text-foreground">{sender?.username ?? "Former member"}</span>
+                      {conversation && ` in ${conversationTitle(conversation)}`}
+                    </span>
+                    <span className="shrink-0">{format(new Date(mention.timestamp), "MMM d, p")}</span>
+                  </div>
+                  <div className="text-sm truncate">{messageExcerpt(mention.content)}</div>
+                </button>
+              );
+            })}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ReactionPicker({ align, onPick }: { align: "start" | "end"; onPick: (emoji: string) => void }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+          title="Add reaction"
+        >
+          <SmilePlus className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align={align} className="w-auto p-1 flex gap-1">
+        {QUICK_REACTIONS.map((emoji) => (
+          <button
+            key={emoji}
+            type="button"
+            className="h-8 w-8 rounded hover:bg-accent text-lg"
+            onClick={() => {
+              setOpen(false);
+              onPick(emoji);
+            }}
+          >
+            {emoji}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// "(edited)" marker that lists the versions a message had before
+function EditHistory({ message }: { message: Message }) {
+  const [open, setOpen] = useState(false);
+  const { data: edits, isLoading } = useQuery<MessageEdit[]>({
+    queryKey: messageEditsQueryKey(message),
+    enabled: open,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="text-xs text-muted-foreground px-1 hover:underline">
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72">
+        <div className="text-sm font-medium mb-2">Previous versions</div>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="space-y-2">
+            {edits?.map((edit) => (
+              <div key={edit.id} className="text-sm">
+                <div className="text-xs text-muted-foreground">
+                  Replaced {format(new Date(edit.editedAt), "PPp")}
+                </div>
+                <div className="break-words">{edit.content}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
   );
 }
 
@@ -502,6 +1976,7 @@ function NewConversationDialog() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: presenceQueryKey });
       setOpen(false);
       toast({
         title: "Conversation created",
@@ -572,4 +2047,233 @@ function NewConversationDialog() {
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
+function NewGroupDialog({ onCreated }: { onCreated: (conversationId: number) => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm({
+    defaultValues: {
+      name: "",
+      avatar: "",
+      usernames: "",
+    },
+  });
+
+  const createGroupMutation = useMutation({
+    mutationFn: async (data: { name: string; avatar: string; usernames: string }) => {
+      const res = await apiRequest("POST", "/api/conversations/groups", {
+        name: data.name,
+        avatar: data.avatar.trim() || undefined,
+        usernames: data.usernames.split(",").map((u) => u.trim()).filter(Boolean),
+      });
+      return res.json() as Promise<ConversationWithParticipants>;
+    },
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: presenceQueryKey });
+      setOpen(false);
+      form.reset();
+      onCreated(conversation.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="New Group">
+          <Users className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create a group</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => createGroupMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Group name" {...field} disabled={createGroupMutation.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="avatar"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Avatar URL (optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://..." {...field} disabled={createGroupMutation.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="usernames"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Members</FormLabel>
+                  <FormControl>
+                    <Input placeholder="alice, bob, carol" {...field} disabled={createGroupMutation.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={createGroupMutation.isPending}>
+              {createGroupMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                "Create Group"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function GroupMembersDialog({
+  conversation,
+  onLeave,
+}: {
+  conversation: ConversationWithParticipants;
+  onLeave: () => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to update members",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (username: string) => {
+      await apiRequest("POST", `/api/conversations/${conversation.id}/participants`, { username });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: presenceQueryKey });
+      setUsername("");
+    },
+    onError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/conversations/${conversation.id}/participants/${userId}`);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      if (userId === user?.id) onLeave();
+    },
+    onError,
+  });
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Members">
+          <Users className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{conversation.name} · {conversation.participants.length} members</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          {conversation.participants.map((participant) => (
+            <div key={participant.id} className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center overflow-hidden">
+                  {participant.profilePicture ? (
+                    <img
+                      src={participant.profilePicture}
+                      alt={participant.username}
+                      className="h-full w-full object-cover"
+                    />
+                  ) : (
+                    <User className="h-4 w-4 text-primary" />
+                  )}
+                </div>
+                <span className="text-sm">
+                  {participant.username}
+                  {participant.id === user?.id && " (you)"}
+                </span>
+              </div>
+              {participant.id === user?.id ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeMemberMutation.mutate(participant.id)}
+                  disabled={removeMemberMutation.isPending}
+                >
+                  Leave
+                </Button>
+              ) : conversation.createdBy === user?.id && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={`Remove ${participant.username}`}
+                  onClick={() => removeMemberMutation.mutate(participant.id)}
+                  disabled={removeMemberMutation.isPending}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+        <Separator />
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (username.trim()) addMemberMutation.mutate(username.trim());
+          }}
+        >
+          <Input
+            placeholder="Add member by username..."
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            disabled={addMemberMutation.isPending}
+          />
+          <Button type="submit" size="icon" disabled={addMemberMutation.isPending || !username.trim()}>
+            {addMemberMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <UserPlus className="h-4 w-4" />
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,22 @@
 import { defineConfig } from "drizzle-kit";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL, ensure the database is provisioned");
-}
+const backend = process.env.STORAGE_BACKEND || "postgres";
 
 export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL,
-  },
+  ...(backend === "pglite"
+    ? {
+        driver: "pglite",
+        dbCredentials: {
+          url: process.env.PGLITE_DATA_DIR || "./data/pglite",
+        },
+      }
+    : {
+        dbCredentials: {
+          // Only push needs a database; generating migrations works offline
+          url: process.env.DATABASE_URL ?? "",
+        },
+      }),
 });
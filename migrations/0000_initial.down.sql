@@ -0,0 +1,3 @@
+DROP TABLE "messages";--> statement-breakpoint
+DROP TABLE "conversations";--> statement-breakpoint
+DROP TABLE "users";
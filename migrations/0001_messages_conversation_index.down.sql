@@ -0,0 +1 @@
+DROP INDEX "messages_conversation_id_idx";
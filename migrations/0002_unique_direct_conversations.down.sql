@@ -0,0 +1,3 @@
+-- Merged duplicates and normalised pairs are kept; only the constraints are removed
+ALTER TABLE "conversations" DROP CONSTRAINT "conversations_user_pair_ordered";--> statement-breakpoint
+ALTER TABLE "conversations" DROP CONSTRAINT "conversations_user_pair_unique";
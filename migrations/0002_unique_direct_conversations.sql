@@ -0,0 +1,17 @@
+-- Merge duplicate conversations between the same pair of users into the oldest one
+UPDATE "messages" SET "conversation_id" = "keep"."id"
+FROM "conversations" "c", (
+  SELECT least("user1_id", "user2_id") AS "a", greatest("user1_id", "user2_id") AS "b", min("id") AS "id"
+  FROM "conversations" GROUP BY 1, 2
+) "keep"
+WHERE "messages"."conversation_id" = "c"."id"
+  AND least("c"."user1_id", "c"."user2_id") = "keep"."a"
+  AND greatest("c"."user1_id", "c"."user2_id") = "keep"."b"
+  AND "c"."id" <> "keep"."id";--> statement-breakpoint
+DELETE FROM "conversations" WHERE "id" NOT IN (
+  SELECT min("id") FROM "conversations"
+  GROUP BY least("user1_id", "user2_id"), greatest("user1_id", "user2_id")
+);--> statement-breakpoint
+UPDATE "conversations" SET "user1_id" = "user2_id", "user2_id" = "user1_id" WHERE "user1_id" > "user2_id";--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_user_pair_unique" UNIQUE("user1_id","user2_id");--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_user_pair_ordered" CHECK ("conversations"."user1_id" <= "conversations"."user2_id");
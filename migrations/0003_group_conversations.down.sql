@@ -0,0 +1,10 @@
+-- Group conversations and their messages cannot be represented without participants
+DELETE FROM "messages" WHERE "conversation_id" IN (SELECT "id" FROM "conversations" WHERE "is_group");--> statement-breakpoint
+DELETE FROM "conversations" WHERE "is_group";--> statement-breakpoint
+DROP TABLE "conversation_participants";--> statement-breakpoint
+ALTER TABLE "conversations" DROP CONSTRAINT "conversations_direct_has_pair";--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "avatar";--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "name";--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "is_group";--> statement-breakpoint
+ALTER TABLE "conversations" ALTER COLUMN "user2_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ALTER COLUMN "user1_id" SET NOT NULL;
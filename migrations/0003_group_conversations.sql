@@ -0,0 +1,21 @@
+CREATE TABLE "conversation_participants" (
+	"conversation_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "conversation_participants_conversation_id_user_id_pk" PRIMARY KEY("conversation_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ALTER COLUMN "user1_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ALTER COLUMN "user2_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "is_group" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "name" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "avatar" text;--> statement-breakpoint
+ALTER TABLE "conversation_participants" ADD CONSTRAINT "conversation_participants_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_participants" ADD CONSTRAINT "conversation_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "conversation_participants_user_id_idx" ON "conversation_participants" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_direct_has_pair" CHECK ("conversations"."is_group" OR ("conversations"."user1_id" IS NOT NULL AND "conversations"."user2_id" IS NOT NULL));--> statement-breakpoint
+-- Existing direct conversations get their pair as participants
+INSERT INTO "conversation_participants" ("conversation_id", "user_id")
+SELECT "id", "user1_id" FROM "conversations"
+UNION
+SELECT "id", "user2_id" FROM "conversations";
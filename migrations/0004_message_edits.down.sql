@@ -0,0 +1,2 @@
+DROP TABLE "message_edits";--> statement-breakpoint
+ALTER TABLE "messages" DROP COLUMN "edited_at";
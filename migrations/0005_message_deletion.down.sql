@@ -0,0 +1,2 @@
+DROP TABLE "hidden_messages";--> statement-breakpoint
+ALTER TABLE "messages" DROP COLUMN "deleted_at";
@@ -0,0 +1,10 @@
+CREATE TABLE "hidden_messages" (
+	"user_id" integer NOT NULL,
+	"message_id" integer NOT NULL,
+	"hidden_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "hidden_messages_user_id_message_id_pk" PRIMARY KEY("user_id","message_id")
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "hidden_messages" ADD CONSTRAINT "hidden_messages_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hidden_messages" ADD CONSTRAINT "hidden_messages_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "messages_reply_to_id_idx";--> statement-breakpoint
+ALTER TABLE "messages" DROP COLUMN "thread_only";
@@ -0,0 +1,2 @@
+ALTER TABLE "messages" ADD COLUMN "thread_only" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "messages_reply_to_id_idx" ON "messages" USING btree ("reply_to_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "messages" ADD COLUMN "has_code" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+-- Close enough for existing rows: new and edited messages are tagged by the parser
+UPDATE "messages" SET "has_code" = true WHERE "content" LIKE '%```%';
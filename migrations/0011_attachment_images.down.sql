@@ -0,0 +1,3 @@
+ALTER TABLE "attachments" DROP COLUMN "blurhash";--> statement-breakpoint
+ALTER TABLE "attachments" DROP COLUMN "height";--> statement-breakpoint
+ALTER TABLE "attachments" DROP COLUMN "width";
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "messages" DROP COLUMN "kind";--> statement-breakpoint
+ALTER TABLE "attachments" DROP COLUMN "waveform";--> statement-breakpoint
+ALTER TABLE "attachments" DROP COLUMN "duration_ms";
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "attachments" ADD COLUMN "duration_ms" integer;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "waveform" jsonb;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "kind" text DEFAULT 'text' NOT NULL;--> statement-breakpoint
+-- Messages sent with attachments before kinds existed
+UPDATE "messages" SET "kind" = 'file' WHERE "id" IN (SELECT "message_id" FROM "attachments" WHERE "message_id" IS NOT NULL);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "conversations" DROP CONSTRAINT "conversations_created_by_users_id_fk";--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "created_by";
\ No newline at end of file
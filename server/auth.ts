@@ -1,7 +1,8 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response } from "express";
 import session from "express-session";
+import type { IncomingMessage } from "http";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
@@ -28,7 +29,11 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Loads the logged-in user of a request that bypasses the Express stack, such
+// as a WebSocket upgrade. Resolves to undefined when there is none.
+export type RequestAuthenticator = (req: IncomingMessage) => Promise<SelectUser | undefined>;
+
+export function setupAuth(app: Express): RequestAuthenticator {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "dev_secret_key_123",
     resave: false,
@@ -42,10 +47,10 @@ export function setupAuth(app: Express) {
     }
   };
 
+  const middleware = [session(sessionSettings), passport.initialize(), passport.session()];
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
-  app.use(passport.initialize());
-  app.use(passport.session());
+  middleware.forEach((handler) => app.use(handler));
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -134,4 +139,16 @@ export function setupAuth(app: Express) {
     console.log('Sending user data for:', req.user?.id);
     res.json(req.user);
   });
+
+  // Runs the session middleware by hand. No response is sent, so it gets a
+  // stand-in that nothing is written to.
+  return async (req) => {
+    const request = req as Request;
+    for (const handler of middleware) {
+      await new Promise<void>((resolve, reject) =>
+        handler(request, {} as Response, (err?: unknown) => (err ? reject(err) : resolve())),
+      );
+    }
+    return request.user;
+  };
 }
\ No newline at end of file
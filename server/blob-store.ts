@@ -0,0 +1,55 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+// Where attachment bytes live. Storage only keeps the key, so the files can
+// move to another store without touching the database.
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  // undefined when nothing is stored under the key
+  get(key: string): Promise<Readable | undefined>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+const keyPattern = /^[\w-]+$/;
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  private file(key: string) {
+    // Keys are generated by the server; anything else could escape the root
+    if (!keyPattern.test(key)) throw new Error(`Invalid blob key: ${key}`);
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.root, { recursive: true });
+    await fs.promises.writeFile(this.file(key), data, { flag: "wx" });
+  }
+
+  async get(key: string): Promise<Readable | undefined> {
+    const file = this.file(key);
+    try {
+      await fs.promises.access(file);
+    } catch {
+      return undefined;
+    }
+    return fs.createReadStream(file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.file(key), { force: true });
+  }
+}
+
+export function createBlobStore(backend = process.env.BLOB_STORE || "local"): BlobStore {
+  switch (backend) {
+    case "local":
+      return new LocalBlobStore(process.env.BLOB_STORE_PATH || "./data/blobs");
+    default:
+      throw new Error(`Unknown blob store: ${backend}`);
+  }
+}
+
+export const blobStore = createBlobStore();
@@ -0,0 +1,482 @@
+import {
+  users,
+  conversations,
+  conversationParticipants,
+  messages,
+  messageEdits,
+  hiddenMessages,
+  messageReactions,
+  messageMentions,
+  pinnedMessages,
+  attachments,
+  parseMentions,
+} from "@shared/schema";
+import type {
+  User,
+  InsertUser,
+  Conversation,
+  Message,
+  MessageEdit,
+  MessageReaction,
+  Attachment,
+  InsertAttachment,
+  PinnedMessage,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, getTableColumns, gt, inArray, isNull, lt, ne, notExists } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { hasCodeBlock } from "@shared/markdown";
+import type { Database, SessionPool } from "./db";
+import { migrate } from "./migrator";
+import type { DirectConversationResult, GroupDetails, IStorage, MessageOptions, MessageQuery } from "./storage";
+
+const PostgresSessionStore = connectPg(session);
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionPool: SessionPool) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: sessionPool as pg.Pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  // Applies pending migrations from ./migrations, see server/migrator.ts
+  async migrate(): Promise<void> {
+    await migrate(this.db);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ username: insertUser.username, password: insertUser.password })
+      .returning();
+    return user;
+  }
+
+  async getConversations(userId: number): Promise<Conversation[]> {
+    return this.db
+      .select(getTableColumns(conversations))
+      .from(conversations)
+      .innerJoin(conversationParticipants, eq(conversationParticipants.conversationId, conversations.id))
+      .where(eq(conversationParticipants.userId, userId))
+      .orderBy(asc(conversations.id));
+  }
+
+  async getOrCreateDirectConversation(userAId: number, userBId: number): Promise<DirectConversationResult> {
+    const [user1Id, user2Id] = userAId <= userBId ? [userAId, userBId] : [userBId, userAId];
+
+    return this.db.transaction(async (tx) => {
+      // The unique pair constraint makes concurrent callers converge on one row
+      const [created] = await tx
+        .insert(conversations)
+        .values({ user1Id, user2Id })
+        .onConflictDoNothing({ target: [conversations.user1Id, conversations.user2Id] })
+        .returning();
+
+      if (created) {
+        await tx
+          .insert(conversationParticipants)
+          .values(Array.from(new Set([user1Id, user2Id]), (userId) => ({ conversationId: created.id, userId })));
+        return { conversation: created, created: true };
+      }
+
+      const [conversation] = await tx
+        .select()
+        .from(conversations)
+        .where(and(eq(conversations.user1Id, user1Id), eq(conversations.user2Id, user2Id)));
+      return { conversation, created: false };
+    });
+  }
+
+  async createGroupConversation(creatorId: number, details: GroupDetails, memberIds: number[]): Promise<Conversation> {
+    return this.db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .insert(conversations)
+        .values({ isGroup: true, name: details.name, avatar: details.avatar ?? null, createdBy: creatorId })
+        .returning();
+      await tx
+        .insert(conversationParticipants)
+        .values(Array.from(new Set([creatorId, ...memberIds]), (userId) => ({ conversationId: conversation.id, userId })));
+      return conversation;
+    });
+  }
+
+  async getConversation(conversationId: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, conversationId));
+    return conversation;
+  }
+
+  async getConversationParticipants(conversationId: number): Promise<User[]> {
+    return this.db
+      .select(getTableColumns(users))
+      .from(conversationParticipants)
+      .innerJoin(users, eq(users.id, conversationParticipants.userId))
+      .where(eq(conversationParticipants.conversationId, conversationId))
+      .orderBy(asc(conversationParticipants.joinedAt), asc(conversationParticipants.userId));
+  }
+
+  async isConversationParticipant(conversationId: number, userId: number): Promise<boolean> {
+    const [participant] = await this.db
+      .select()
+      .from(conversationParticipants)
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, userId),
+      ));
+    return !!participant;
+  }
+
+  async addConversationParticipant(conversationId: number, userId: number): Promise<void> {
+    await this.db
+      .insert(conversationParticipants)
+      .values({ conversationId, userId })
+      .onConflictDoNothing();
+  }
+
+  async removeConversationParticipant(conversationId: number, userId: number): Promise<void> {
+    await this.db
+      .delete(conversationParticipants)
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, userId),
+      ));
+  }
+
+  async getMessages(conversationId: number, query: MessageQuery = {}): Promise<Message[]> {
+    const { before, after, limit, viewerId } = query;
+    const conditions = and(
+      eq(messages.conversationId, conversationId),
+      eq(messages.threadOnly, false),
+      before !== undefined ? lt(messages.id, before) : undefined,
+      after !== undefined ? gt(messages.id, after) : undefined,
+      viewerId !== undefined
+        ? notExists(
+            this.db
+              .select()
+              .from(hiddenMessages)
+              .where(and(eq(hiddenMessages.userId, viewerId), eq(hiddenMessages.messageId, messages.id))),
+          )
+        : undefined,
+    );
+
+    if (after !== undefined || limit === undefined) {
+      const oldestFirst = this.db.select().from(messages).where(conditions).orderBy(asc(messages.id));
+      return limit === undefined ? oldestFirst : oldestFirst.limit(limit);
+    }
+
+    const newestFirst = await this.db
+      .select()
+      .from(messages)
+      .where(conditions)
+      .orderBy(desc(messages.id))
+      .limit(limit);
+    return newestFirst.reverse();
+  }
+
+  async createMessage(
+    conversationId: number,
+    senderId: number,
+    content: string,
+    replyToId?: number,
+    options: MessageOptions = {},
+  ): Promise<Message> {
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx
+        .insert(messages)
+        .values({
+          conversationId,
+          senderId,
+          content,
+          replyToId: replyToId || null,
+          threadOnly: options.threadOnly ?? false,
+          kind: options.kind ?? "text",
+          hasCode: hasCodeBlock(content),
+        })
+        .returning();
+
+      const usernames = parseMentions(content);
+      if (usernames.length > 0) {
+        const mentioned = await tx
+          .select({ userId: users.id })
+          .from(conversationParticipants)
+          .innerJoin(users, eq(users.id, conversationParticipants.userId))
+          .where(and(
+            eq(conversationParticipants.conversationId, conversationId),
+            inArray(users.username, usernames),
+            ne(users.id, senderId),
+          ));
+        if (mentioned.length > 0) {
+          await tx.insert(messageMentions).values(mentioned.map(({ userId }) => ({ messageId: message.id, userId })));
+        }
+      }
+
+      const attachmentIds = options.attachmentIds ?? [];
+      if (attachmentIds.length > 0) {
+        await tx
+          .update(attachments)
+          .set({ messageId: message.id })
+          .where(and(inArray(attachments.id, attachmentIds), isNull(attachments.messageId)));
+      }
+      return message;
+    });
+  }
+
+  async updateUserPassword(userId: number, hashedPassword: string): Promise<void> {
+    await this.db.update(users).set({ password: hashedPassword }).where(eq(users.id, userId));
+  }
+
+  async updateUserProfilePicture(userId: number, profilePicture: string | null): Promise<void> {
+    await this.db.update(users).set({ profilePicture }).where(eq(users.id, userId));
+  }
+
+  async updateUserLastSeen(userId: number, lastSeenAt: Date): Promise<void> {
+    await this.db.update(users).set({ lastSeenAt }).where(eq(users.id, userId));
+  }
+
+  async getContactIds(userId: number): Promise<number[]> {
+    const conversationIds = this.db
+      .select({ id: conversationParticipants.conversationId })
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.userId, userId));
+    const contacts = await this.db
+      .selectDistinct({ userId: conversationParticipants.userId })
+      .from(conversationParticipants)
+      .where(and(
+        inArray(conversationParticipants.conversationId, conversationIds),
+        ne(conversationParticipants.userId, userId),
+      ));
+    return contacts.map((contact) => contact.userId);
+  }
+
+  async updateMessageReadStatus(messageId: number, read: boolean): Promise<void> {
+    await this.db.update(messages).set({ read }).where(eq(messages.id, messageId));
+  }
+
+  async markConversationMessagesAsRead(conversationId: number, userId: number): Promise<void> {
+    await this.db
+      .update(messages)
+      .set({ read: true })
+      .where(and(eq(messages.conversationId, conversationId), ne(messages.senderId, userId)));
+  }
+
+  async getMessage(messageId: number): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, messageId));
+    return message;
+  }
+
+  async getMessagesByIds(messageIds: number[]): Promise<Message[]> {
+    if (messageIds.length === 0) return [];
+    return this.db.select().from(messages).where(inArray(messages.id, messageIds)).orderBy(asc(messages.id));
+  }
+
+  async editMessage(messageId: number, content: string): Promise<Message | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the row so concurrent edits each record the content they replaced
+      const [previous] = await tx.select().from(messages).where(eq(messages.id, messageId)).for("update");
+      if (!previous) return undefined;
+
+      const editedAt = new Date();
+      await tx.insert(messageEdits).values({ messageId, content: previous.content, editedAt });
+      const [message] = await tx
+        .update(messages)
+        .set({ content, editedAt, hasCode: hasCodeBlock(content) })
+        .where(eq(messages.id, messageId))
+        .returning();
+      return message;
+    });
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return this.db
+      .select()
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(asc(messageEdits.id));
+  }
+
+  async hideMessage(messageId: number, userId: number): Promise<void> {
+    await this.db.insert(hiddenMessages).values({ userId, messageId }).onConflictDoNothing();
+  }
+
+  async deleteMessage(messageId: number): Promise<Message | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(messageEdits).where(eq(messageEdits.messageId, messageId));
+      await tx.delete(messageReactions).where(eq(messageReactions.messageId, messageId));
+      await tx.delete(messageMentions).where(eq(messageMentions.messageId, messageId));
+      await tx.delete(pinnedMessages).where(eq(pinnedMessages.messageId, messageId));
+      await tx.delete(attachments).where(eq(attachments.messageId, messageId));
+      // Deleting again keeps the original deletion time
+      await tx
+        .update(messages)
+        .set({ content: "", hasCode: false, deletedAt: new Date() })
+        .where(and(eq(messages.id, messageId), isNull(messages.deletedAt)));
+      const [message] = await tx.select().from(messages).where(eq(messages.id, messageId));
+      return message;
+    });
+  }
+
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    await this.db.insert(messageReactions).values({ messageId, userId, emoji }).onConflictDoNothing();
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    await this.db
+      .delete(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, messageId),
+        eq(messageReactions.userId, userId),
+        eq(messageReactions.emoji, emoji),
+      ));
+  }
+
+  async getReactions(messageIds: number[]): Promise<MessageReaction[]> {
+    if (messageIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageIds))
+      .orderBy(asc(messageReactions.createdAt));
+  }
+
+  async getReplies(messageId: number, viewerId?: number): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.replyToId, messageId),
+        viewerId !== undefined
+          ? notExists(
+              this.db
+                .select()
+                .from(hiddenMessages)
+                .where(and(eq(hiddenMessages.userId, viewerId), eq(hiddenMessages.messageId, messages.id))),
+            )
+          : undefined,
+      ))
+      .orderBy(asc(messages.id));
+  }
+
+  async getReplyCounts(messageIds: number[]): Promise<Map<number, number>> {
+    if (messageIds.length === 0) return new Map();
+    const rows = await this.db
+      .select({ messageId: messages.replyToId, replies: count() })
+      .from(messages)
+      .where(inArray(messages.replyToId, messageIds))
+      .groupBy(messages.replyToId);
+    return new Map(rows.map((row) => [row.messageId!, row.replies]));
+  }
+
+  async getMentionedUserIds(messageId: number): Promise<number[]> {
+    const rows = await this.db
+      .select({ userId: messageMentions.userId })
+      .from(messageMentions)
+      .where(eq(messageMentions.messageId, messageId));
+    return rows.map((row) => row.userId);
+  }
+
+  async getUnreadMentions(userId: number): Promise<Message[]> {
+    return this.db
+      .select(getTableColumns(messages))
+      .from(messageMentions)
+      .innerJoin(messages, eq(messages.id, messageMentions.messageId))
+      // Only conversations the user still takes part in
+      .innerJoin(conversationParticipants, and(
+        eq(conversationParticipants.conversationId, messages.conversationId),
+        eq(conversationParticipants.userId, messageMentions.userId),
+      ))
+      .where(and(
+        eq(messageMentions.userId, userId),
+        isNull(messageMentions.readAt),
+        notExists(
+          this.db
+            .select()
+            .from(hiddenMessages)
+            .where(and(eq(hiddenMessages.userId, userId), eq(hiddenMessages.messageId, messages.id))),
+        ),
+      ))
+      .orderBy(desc(messages.id));
+  }
+
+  async markMentionsAsRead(conversationId: number, userId: number): Promise<void> {
+    await this.db
+      .update(messageMentions)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(messageMentions.userId, userId),
+        isNull(messageMentions.readAt),
+        inArray(
+          messageMentions.messageId,
+          this.db.select({ id: messages.id }).from(messages).where(eq(messages.conversationId, conversationId)),
+        ),
+      ));
+  }
+
+  async pinMessage(conversationId: number, messageId: number, userId: number): Promise<PinnedMessage> {
+    await this.db.insert(pinnedMessages).values({ conversationId, messageId, pinnedBy: userId }).onConflictDoNothing();
+    const [pin] = await this.db.select().from(pinnedMessages).where(eq(pinnedMessages.messageId, messageId));
+    return pin;
+  }
+
+  async unpinMessage(messageId: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(pinnedMessages)
+      .where(eq(pinnedMessages.messageId, messageId))
+      .returning({ messageId: pinnedMessages.messageId });
+    return removed.length > 0;
+  }
+
+  async getPinnedMessages(conversationId: number): Promise<PinnedMessage[]> {
+    return this.db
+      .select()
+      .from(pinnedMessages)
+      .where(eq(pinnedMessages.conversationId, conversationId))
+      .orderBy(desc(pinnedMessages.id));
+  }
+
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const [created] = await this.db.insert(attachments).values(attachment).returning();
+    return created;
+  }
+
+  async getAttachment(attachmentId: number): Promise<Attachment | undefined> {
+    const [attachment] = await this.db.select().from(attachments).where(eq(attachments.id, attachmentId));
+    return attachment;
+  }
+
+  async getAttachments(messageIds: number[]): Promise<Attachment[]> {
+    if (messageIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(attachments)
+      .where(inArray(attachments.messageId, messageIds))
+      .orderBy(asc(attachments.id));
+  }
+
+  async deletePendingAttachment(attachmentId: number): Promise<Attachment | undefined> {
+    const [deleted] = await this.db
+      .delete(attachments)
+      .where(and(eq(attachments.id, attachmentId), isNull(attachments.messageId)))
+      .returning();
+    return deleted;
+  }
+
+  async deleteStalePendingAttachments(before: Date): Promise<Attachment[]> {
+    return this.db
+      .delete(attachments)
+      .where(and(isNull(attachments.messageId), lt(attachments.createdAt, before)))
+      .returning();
+  }
+}
@@ -0,0 +1,64 @@
+import pg from "pg";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Minimal subset of pg.Pool that connect-pg-simple relies on
+export type SessionPool = {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[] }>;
+};
+
+export type DatabaseConnection = {
+  db: Database;
+  sessionPool: SessionPool;
+  close(): Promise<void>;
+};
+
+export function connectPostgres(connectionString: string): DatabaseConnection {
+  const pool = new pg.Pool({ connectionString });
+  return {
+    db: drizzleNodePg(pool, { schema }),
+    sessionPool: pool,
+    close: () => pool.end(),
+  };
+}
+
+// Embedded Postgres (PGlite) for local development and tests. Pass a
+// directory to persist data, or "memory://" for a throwaway database.
+export function connectPglite(dataDir: string): DatabaseConnection {
+  const client = new PGlite(dataDir);
+  return {
+    db: drizzlePglite(client, { schema }),
+    sessionPool: {
+      async query(text, params) {
+        // connect-pg-simple creates its table with a multi-statement script,
+        // which only the simple query protocol accepts
+        if (!params?.length) {
+          const results = await client.exec(text);
+          return results[results.length - 1] ?? { rows: [] };
+        }
+        return client.query(text, params);
+      },
+    },
+    close: () => client.close(),
+  };
+}
+
+// Connection for the postgres or pglite storage backend, configured from the environment
+export function connectDatabase(backend: string): DatabaseConnection {
+  switch (backend) {
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set to use the postgres storage backend");
+      }
+      return connectPostgres(process.env.DATABASE_URL);
+    case "pglite":
+      return connectPglite(process.env.PGLITE_DATA_DIR || "./data/pglite");
+    default:
+      throw new Error(`Storage backend ${backend} does not use a Postgres database`);
+  }
+}
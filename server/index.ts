@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { DatabaseStorage } from "./database-storage";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +39,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (process.env.MIGRATE_ON_BOOT === "true" && storage instanceof DatabaseStorage) {
+    await storage.migrate();
+    log("Database migrations applied");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { hasCodeBlock, parseInline, parseMarkdown } from "@shared/markdown";
+
+describe("message markdown", () => {
+  it("parses emphasis, strikethrough and inline code", () => {
+    assert.deepEqual(parseInline("**bold** *it* ~~gone~~ `a*b*`"), [
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " " },
+      { type: "em", children: [{ type: "text", text: "it" }] },
+      { type: "text", text: " " },
+      { type: "strike", children: [{ type: "text", text: "gone" }] },
+      { type: "text", text: " " },
+      { type: "code", code: "a*b*" },
+    ]);
+  });
+
+  it("leaves unmatched markers, snake_case and escapes as text", () => {
+    assert.deepEqual(parseInline("2 * 3 * 4, my_var_name, \\*not\\*, **open"), [
+      { type: "text", text: "2 * 3 * 4, my_var_name, *not*, **open" },
+    ]);
+  });
+
+  it("links bare URLs without trailing punctuation", () => {
+    assert.deepEqual(parseInline("see https://example.com/a_(b). or www.example.org!"), [
+      { type: "text", text: "see " },
+      { type: "link", href: "https://example.com/a_(b)", text: "https://example.com/a_(b)" },
+      { type: "text", text: ". or " },
+      { type: "link", href: "https://www.example.org", text: "www.example.org" },
+      { type: "text", text: "!" },
+    ]);
+  });
+
+  it("never links other schemes", () => {
+    assert.deepEqual(parseInline("javascript:alert(1) data:text/html,<b>x</b>"), [
+      { type: "text", text: "javascript:alert(1) data:text/html,<b>x</b>" },
+    ]);
+  });
+
+  it("parses code fences, quotes and lists into blocks", () => {
+    assert.deepEqual(parseMarkdown("intro\n```ts\nconst a = 1;\n\n<b>\n```\n> quoted\n- one\n- two\n3. three"), [
+      { type: "paragraph", children: [{ type: "text", text: "intro" }] },
+      { type: "code", language: "ts", code: "const a = 1;\n\n<b>" },
+      { type: "quote", children: [{ type: "paragraph", children: [{ type: "text", text: "quoted" }] }] },
+      {
+        type: "list",
+        ordered: false,
+        start: 1,
+        items: [[{ type: "text", text: "one" }], [{ type: "text", text: "two" }]],
+      },
+      { type: "list", ordered: true, start: 3, items: [[{ type: "text", text: "three" }]] },
+    ]);
+  });
+
+  it("keeps single newlines as line breaks and runs an unclosed fence to the end", () => {
+    assert.deepEqual(parseMarkdown("a\nb\n\n```\nx"), [
+      { type: "paragraph", children: [{ type: "text", text: "a" }, { type: "break" }, { type: "text", text: "b" }] },
+      { type: "code", language: null, code: "x" },
+    ]);
+  });
+
+  it("matches delimiters in linear time", () => {
+    const started = Date.now();
+    for (const text of ["**x ".repeat(24000), "*a ".repeat(30000), "_a ~~b ".repeat(15000)]) {
+      assert.equal(parseInline(text).length, 1);
+    }
+    assert.ok(Date.now() - started < 2000);
+  });
+
+  it("finds code fences the way the block parser does", () => {
+    assert.equal(hasCodeBlock("text\n```\ncode"), true);
+    assert.equal(hasCodeBlock("> > quoted\n> > ```js"), true);
+    assert.equal(hasCodeBlock("> > > > ```"), false);
+    assert.equal(hasCodeBlock("`inline` and - ```"), false);
+  });
+});
@@ -0,0 +1,41 @@
+import { connectDatabase } from "./db";
+import { getAppliedMigrations, loadMigrations, migrate, rollback } from "./migrator";
+
+// Usage: tsx server/migrate.ts [up | down [steps] | status]
+// Connects with the same STORAGE_BACKEND/DATABASE_URL/PGLITE_DATA_DIR as the server.
+
+(async () => {
+  const [command = "up", arg] = process.argv.slice(2);
+  const connection = connectDatabase(process.env.STORAGE_BACKEND || "postgres");
+
+  try {
+    switch (command) {
+      case "up": {
+        const applied = await migrate(connection.db);
+        console.log(applied.length ? `Applied: ${applied.join(", ")}` : "Database is up to date");
+        break;
+      }
+      case "down": {
+        const steps = arg ? parseInt(arg) : 1;
+        if (isNaN(steps)) throw new Error(`Invalid number of steps: ${arg}`);
+        const reverted = await rollback(connection.db, steps);
+        console.log(reverted.length ? `Rolled back: ${reverted.join(", ")}` : "Nothing to roll back");
+        break;
+      }
+      case "status": {
+        const applied = new Set(await getAppliedMigrations(connection.db));
+        for (const { tag } of loadMigrations()) {
+          console.log(`${applied.has(tag) ? "applied" : "pending"}  ${tag}`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await connection.close();
+  }
+})();
@@ -0,0 +1,74 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { sql } from "drizzle-orm";
+import { connectPglite, type DatabaseConnection } from "./db";
+import { getAppliedMigrations, loadMigrations, migrate, rollback } from "./migrator";
+
+async function tableExists({ db }: DatabaseConnection, table: string) {
+  const result = await db.execute(sql`SELECT to_regclass(${table}) AS oid`);
+  return (result.rows[0] as { oid: string | null }).oid !== null;
+}
+
+describe("migrator", () => {
+  let connection: DatabaseConnection;
+
+  beforeEach(() => {
+    connection = connectPglite("memory://");
+  });
+
+  afterEach(async () => {
+    await connection.close();
+  });
+
+  it("applies every checked-in migration once and records it", async () => {
+    const tags = loadMigrations().map((m) => m.tag);
+
+    assert.deepEqual(await migrate(connection.db), tags);
+    assert.deepEqual(await getAppliedMigrations(connection.db), tags);
+    assert.ok(await tableExists(connection, "messages"));
+
+    assert.deepEqual(await migrate(connection.db), []);
+  });
+
+  it("every checked-in migration can be rolled back and re-applied", async () => {
+    const tags = loadMigrations().map((m) => m.tag);
+    await migrate(connection.db);
+
+    assert.deepEqual(await rollback(connection.db, tags.length), [...tags].reverse());
+    assert.deepEqual(await getAppliedMigrations(connection.db), []);
+    assert.equal(await tableExists(connection, "messages"), false);
+
+    assert.deepEqual(await migrate(connection.db), tags);
+  });
+
+  it("rolls back only the requested number of steps", async () => {
+    const migrations = [
+      { tag: "0000_a", up: ["CREATE TABLE a (id integer)"], down: ["DROP TABLE a"] },
+      { tag: "0001_b", up: ["CREATE TABLE b (id integer)"], down: ["DROP TABLE b"] },
+    ];
+    await migrate(connection.db, migrations);
+
+    assert.deepEqual(await rollback(connection.db, 1, migrations), ["0001_b"]);
+    assert.deepEqual(await getAppliedMigrations(connection.db), ["0000_a"]);
+    assert.ok(await tableExists(connection, "a"));
+    assert.equal(await tableExists(connection, "b"), false);
+  });
+
+  it("refuses to roll back a migration without a down script", async () => {
+    const migrations = [{ tag: "0000_a", up: ["CREATE TABLE a (id integer)"] }];
+    await migrate(connection.db, migrations);
+
+    await assert.rejects(rollback(connection.db, 1, migrations), /no 0000_a.down.sql/);
+    assert.deepEqual(await getAppliedMigrations(connection.db), ["0000_a"]);
+  });
+
+  it("leaves no trace of a migration that fails part-way", async () => {
+    const migrations = [
+      { tag: "0000_broken", up: ["CREATE TABLE a (id integer)", "NOT VALID SQL"] },
+    ];
+
+    await assert.rejects(migrate(connection.db, migrations));
+    assert.deepEqual(await getAppliedMigrations(connection.db), []);
+    assert.equal(await tableExists(connection, "a"), false);
+  });
+});
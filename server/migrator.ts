@@ -0,0 +1,114 @@
+import fs from "fs";
+import path from "path";
+import { asc, eq, sql } from "drizzle-orm";
+import { pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import type { Database } from "./db";
+
+// Migrations are generated from @shared/schema with `npm run db:generate`
+// into ./migrations. Each <tag>.sql may have a hand-written <tag>.down.sql
+// that reverts it; statements are separated by drizzle-kit's breakpoints.
+
+const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+
+// Kept out of @shared/schema so drizzle-kit does not generate migrations for it
+const schemaMigrations = pgTable("schema_migrations", {
+  id: serial("id").primaryKey(),
+  tag: text("tag").notNull().unique(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+});
+
+export type Migration = {
+  tag: string;
+  up: string[];
+  down?: string[];
+};
+
+type Journal = {
+  entries: { idx: number; tag: string }[];
+};
+
+function readStatements(file: string): string[] | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  return fs
+    .readFileSync(file, "utf8")
+    .split(STATEMENT_BREAKPOINT)
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+}
+
+export function loadMigrations(dir = process.env.MIGRATIONS_DIR || "./migrations"): Migration[] {
+  const journal: Journal = JSON.parse(
+    fs.readFileSync(path.join(dir, "meta", "_journal.json"), "utf8"),
+  );
+
+  return [...journal.entries]
+    .sort((a, b) => a.idx - b.idx)
+    .map(({ tag }) => {
+      const up = readStatements(path.join(dir, `${tag}.sql`));
+      if (!up) {
+        throw new Error(`Migration ${tag} is listed in the journal but ${tag}.sql is missing`);
+      }
+      return { tag, up, down: readStatements(path.join(dir, `${tag}.down.sql`)) };
+    });
+}
+
+async function ensureHistoryTable(db: Database) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "schema_migrations" (
+      "id" serial PRIMARY KEY NOT NULL,
+      "tag" text NOT NULL UNIQUE,
+      "applied_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+}
+
+export async function getAppliedMigrations(db: Database): Promise<string[]> {
+  await ensureHistoryTable(db);
+  const rows = await db
+    .select({ tag: schemaMigrations.tag })
+    .from(schemaMigrations)
+    .orderBy(asc(schemaMigrations.id));
+  return rows.map((row) => row.tag);
+}
+
+// Applies every pending migration in order, each in its own transaction.
+// Returns the tags that were applied.
+export async function migrate(db: Database, migrations = loadMigrations()): Promise<string[]> {
+  const applied = new Set(await getAppliedMigrations(db));
+  const pending = migrations.filter((migration) => !applied.has(migration.tag));
+
+  for (const migration of pending) {
+    await db.transaction(async (tx) => {
+      for (const statement of migration.up) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.insert(schemaMigrations).values({ tag: migration.tag });
+    });
+  }
+
+  return pending.map((migration) => migration.tag);
+}
+
+// Reverts the most recently applied migrations using their down scripts.
+// Returns the tags that were rolled back, newest first.
+export async function rollback(db: Database, steps = 1, migrations = loadMigrations()): Promise<string[]> {
+  if (steps < 1) return [];
+  const applied = await getAppliedMigrations(db);
+  const toRevert = applied.slice(-steps).reverse();
+
+  for (const tag of toRevert) {
+    const migration = migrations.find((m) => m.tag === tag);
+    if (!migration?.down) {
+      throw new Error(`Cannot roll back ${tag}: no ${tag}.down.sql found`);
+    }
+
+    await db.transaction(async (tx) => {
+      for (const statement of migration.down!) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.delete(schemaMigrations).where(eq(schemaMigrations.tag, tag));
+    });
+  }
+
+  return toRevert;
+}
@@ -1,39 +1,321 @@
-import type { Express } from "express";
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { WebSocketServer, WebSocket } from "ws";
 import { setupAuth, hashPassword, comparePasswords } from "./auth";
 import { storage } from "./storage";
-import { insertMessageSchema } from "@shared/schema";
+import { blobStore } from "./blob-store";
+import { processImage, thumbnailKey, type ProcessedImage } from "./thumbnails";
+import {
+  deleteMessageQuerySchema,
+  editMessageSchema,
+  insertGroupConversationSchema,
+  insertMessageSchema,
+  messageExcerpt,
+  messagePageQuerySchema,
+  reactionSchema,
+  thumbnailQuerySchema,
+  thumbnailWidths,
+  uploadAttachmentQuerySchema,
+  type Attachment,
+  type AttachmentView,
+  type ClientEvent,
+  type Conversation,
+  type ConversationWithParticipants,
+  type Message,
+  type MessagePage,
+  type MessageView,
+  type PinnedMessage,
+  type PinView,
+  type PresenceStatus,
+  type PresenceView,
+  type PublicUser,
+  type ReactionSummary,
+  type ReplySummary,
+  type ServerEvent,
+  type ThreadView,
+  type User,
+} from "@shared/schema";
 import { parse } from "url";
 
+// One open socket. A user has one per tab or device they are signed in on.
 type Client = {
   userId: number;
   ws: WebSocket;
+  // The conversation open on this socket, which typing events are relayed for
   conversationId?: number;
+  // False once the tab reports that the user has gone idle
+  active: boolean;
 };
 
-const clients = new Map<number, Client>();
+const clients = new Map<number, Set<Client>>();
+
+function addClient(client: Client) {
+  const userClients = clients.get(client.userId) ?? new Set<Client>();
+  userClients.add(client);
+  clients.set(client.userId, userClients);
+}
+
+function removeClient(client: Client) {
+  const userClients = clients.get(client.userId);
+  if (!userClients) return;
+  userClients.delete(client);
+  if (userClients.size === 0) clients.delete(client.userId);
+}
+
+// How long after sending a message its sender can still delete it for everyone
+const deleteForEveryoneWindowMs = Number(process.env.DELETE_FOR_EVERYONE_WINDOW_MINUTES || 60) * 60_000;
+
+const maxAttachmentBytes = Number(process.env.MAX_ATTACHMENT_MB || 10) * 1024 * 1024;
+
+// Uploads that are never sent, say from a closed tab, are removed after this long
+const pendingAttachmentTtlMs = Number(process.env.PENDING_ATTACHMENT_TTL_HOURS || 24) * 3_600_000;
+const staleAttachmentSweepMs = 60 * 60_000;
+
+// Leading bytes of the types a browser would render inline, so a script can't
+// be uploaded as an image. The other types are always served as downloads.
+const fileSignatures: Record<string, number[][]> = {
+  "image/png": [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  "image/jpeg": [[0xff, 0xd8, 0xff]],
+  "image/gif": [[0x47, 0x49, 0x46, 0x38]],
+  "image/webp": [[0x52, 0x49, 0x46, 0x46]],
+  "application/pdf": [[0x25, 0x50, 0x44, 0x46]],
+};
+
+function matchesFileSignature(mimeType: string, data: Buffer): boolean {
+  const signatures = fileSignatures[mimeType];
+  if (!signatures) return true;
+  return signatures.some((signature) => signature.every((byte, index) => data[index] === byte)) &&
+    (mimeType !== "image/webp" || data.toString("latin1", 8, 12) === "WEBP");
+}
+
+function toPublicUser({ password, ...user }: User): PublicUser {
+  return user;
+}
+
+function toAttachmentView({ storageKey, ...attachment }: Attachment): AttachmentView {
+  return attachment;
+}
+
+// Every blob stored for an attachment: the file and, for images, its thumbnails
+function attachmentBlobKeys({ storageKey, width }: Attachment): string[] {
+  return width === null
+    ? [storageKey]
+    : [storageKey, ...thumbnailWidths.map((thumbnailWidth) => thumbnailKey(storageKey, thumbnailWidth))];
+}
+
+async function withParticipants(conversation: Conversation, viewerId: number): Promise<ConversationWithParticipants> {
+  const participants = (await storage.getConversationParticipants(conversation.id)).map(toPublicUser);
+  if (conversation.isGroup) {
+    return { ...conversation, participants };
+  }
+  const otherUserId = conversation.user1Id === viewerId ? conversation.user2Id : conversation.user1Id;
+  return { ...conversation, participants, otherUser: participants.find((u) => u.id === otherUserId) };
+}
+
+// Reactions are grouped by emoji in the order each emoji was first used
+async function toMessageViews(messages: Message[]): Promise<MessageView[]> {
+  const ids = messages.map((m) => m.id);
+  const replyToIds = messages.flatMap((m) => m.replyToId ?? []);
+  const [reactions, replyCounts, replySummaries, attachments] = await Promise.all([
+    storage.getReactions(ids),
+    storage.getReplyCounts(ids),
+    toReplySummaries(replyToIds),
+    storage.getAttachments(ids),
+  ]);
+  const summariesByMessage = new Map<number, ReactionSummary[]>();
+  reactions.forEach(({ messageId, userId, emoji }) => {
+    const summaries = summariesByMessage.get(messageId) ?? [];
+    const summary = summaries.find((s) => s.emoji === emoji);
+    if (summary) summary.userIds.push(userId);
+    else summaries.push({ emoji, userIds: [userId] });
+    summariesByMessage.set(messageId, summaries);
+  });
+  const attachmentsByMessage = new Map<number, AttachmentView[]>();
+  attachments.forEach((attachment) => {
+    const views = attachmentsByMessage.get(attachment.messageId!) ?? [];
+    views.push(toAttachmentView(attachment));
+    attachmentsByMessage.set(attachment.messageId!, views);
+  });
+  return messages.map((message) => ({
+    ...message,
+    reactions: summariesByMessage.get(message.id) ?? [],
+    replyCount: replyCounts.get(message.id) ?? 0,
+    replyTo: message.replyToId ? replySummaries.get(message.replyToId) ?? null : null,
+    attachments: attachmentsByMessage.get(message.id) ?? [],
+  }));
+}
+
+async function toReplySummaries(messageIds: number[]): Promise<Map<number, ReplySummary>> {
+  const originals = await storage.getMessagesByIds(messageIds);
+  const senders = await Promise.all(
+    Array.from(new Set(originals.map((m) => m.senderId)), (id) => storage.getUser(id)),
+  );
+  const sendersById = new Map(senders.flatMap((sender) => (sender ? [[sender.id, sender] as const] : [])));
+  return new Map(originals.map((original) => [original.id, {
+    id: original.id,
+    senderId: original.senderId,
+    senderName: sendersById.get(original.senderId)?.username ?? "Unknown user",
+    excerpt: original.deletedAt ? "" : messageExcerpt(original.content),
+    kind: original.kind,
+    deleted: !!original.deletedAt,
+  }]));
+}
+
+async function toMessageView(message: Message): Promise<MessageView> {
+  const [view] = await toMessageViews([message]);
+  return view;
+}
+
+// Keeps the order of the pins
+async function toPinViews(pins: PinnedMessage[]): Promise<PinView[]> {
+  const messages = await toMessageViews(await storage.getMessagesByIds(pins.map((pin) => pin.messageId)));
+  const messagesById = new Map(messages.map((message) => [message.id, message]));
+  return pins.flatMap(({ messageId, pinnedBy, pinnedAt }) => {
+    const message = messagesById.get(messageId);
+    return message ? [{ message, pinnedBy, pinnedAt }] : [];
+  });
+}
+
+// Resolves the :id and :messageId params for the current user. Responds with
+// 403 unless they take part in the conversation, or 404 if the message is not in it.
+async function findConversationMessage(req: Request, res: Response): Promise<Message | undefined> {
+  const conversationId = parseInt(req.params.id);
+  if (!(await storage.isConversationParticipant(conversationId, req.user!.id))) {
+    res.sendStatus(403);
+    return undefined;
+  }
+
+  const message = await storage.getMessage(parseInt(req.params.messageId));
+  if (!message || message.conversationId !== conversationId) {
+    res.status(404).json({ message: "Message not found" });
+    return undefined;
+  }
+  return message;
+}
+
+// Resolves the :id param to an attachment the current user may download.
+// Until it is sent, an upload is only visible to the person who made it.
+async function findAttachment(req: Request, res: Response): Promise<Attachment | undefined> {
+  const attachment = await storage.getAttachment(parseInt(req.params.id));
+  if (!attachment) {
+    res.status(404).json({ message: "Attachment not found" });
+    return undefined;
+  }
+
+  const allowed = attachment.messageId === null
+    ? attachment.uploaderId === req.user!.id
+    : await storage.isConversationParticipant(attachment.conversationId, req.user!.id);
+  if (!allowed) {
+    res.sendStatus(403);
+    return undefined;
+  }
+  return attachment;
+}
+
+// Guards a route on the :id conversation before its body is read, so uploads
+// from anyone outside it are refused without being buffered
+async function requireParticipant(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  if (!(await storage.isConversationParticipant(parseInt(req.params.id), req.user!.id))) {
+    return res.sendStatus(403);
+  }
+  next();
+}
+
+function send(ws: WebSocket, event: ServerEvent) {
+  ws.send(JSON.stringify(event));
+}
+
+// Sends to every socket the user has open
+function sendToUser(userId: number, payload: string) {
+  clients.get(userId)?.forEach(({ ws }) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(payload);
+    }
+  });
+}
+
+// Sends an event to every connected participant of a conversation
+async function broadcastToConversation(conversationId: number, event: ServerEvent) {
+  const payload = JSON.stringify(event);
+  const participants = await storage.getConversationParticipants(conversationId);
+  participants.forEach(({ id }) => sendToUser(id, payload));
+}
+
+// Status last sent to each user's contacts; users left out are offline
+const presence = new Map<number, PresenceStatus>();
+
+function currentPresence(userId: number): PresenceStatus {
+  const userClients = clients.get(userId);
+  if (!userClients) return "offline";
+  let active = false;
+  userClients.forEach((client) => {
+    active = active || client.active;
+  });
+  return active ? "online" : "away";
+}
+
+// Pending presence update of each user, which the next one waits for
+const presenceUpdates = new Map<number, Promise<void>>();
+
+// Tells the user's contacts when their status changes. Updates for one user
+// run one at a time, so a status is never sent after a newer one.
+function updatePresence(userId: number): Promise<void> {
+  // A failed update was reported to its own caller and does not stop the next
+  const update = (presenceUpdates.get(userId) ?? Promise.resolve())
+    .catch(() => {})
+    .then(() => applyPresence(userId));
+  presenceUpdates.set(userId, update);
+  const forget = () => {
+    if (presenceUpdates.get(userId) === update) presenceUpdates.delete(userId);
+  };
+  update.then(forget, forget);
+  return update;
+}
+
+// Coming online and leaving it both move lastSeenAt to now, so it is when
+// the user was last active
+async function applyPresence(userId: number) {
+  const status = currentPresence(userId);
+  const previous = presence.get(userId) ?? "offline";
+  if (status === previous) return;
+  if (status === "offline") presence.delete(userId);
+  else presence.set(userId, status);
+
+  let lastSeenAt: Date | null;
+  if (status === "online" || previous === "online") {
+    lastSeenAt = new Date();
+    await storage.updateUserLastSeen(userId, lastSeenAt);
+  } else {
+    lastSeenAt = (await storage.getUser(userId))?.lastSeenAt ?? null;
+  }
+
+  const event: ServerEvent = { type: "presence", userId, status, lastSeenAt };
+  const payload = JSON.stringify(event);
+  (await storage.getContactIds(userId)).forEach((contactId) => sendToUser(contactId, payload));
+}
+
+async function removeStaleAttachments() {
+  const stale = await storage.deleteStalePendingAttachments(new Date(Date.now() - pendingAttachmentTtlMs));
+  await Promise.all(stale.flatMap(attachmentBlobKeys).map((key) => blobStore.delete(key)));
+}
+
+function logSweepError(err: unknown) {
+  console.error('Stale attachment sweep error:', err);
+}
+
+function logPresenceError(err: unknown) {
+  console.error('Presence update error:', err);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  setupAuth(app);
+  const authenticateRequest = setupAuth(app);
 
   app.get("/api/conversations", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     const conversations = await storage.getConversations(req.user!.id);
-
-    // Get user details for each conversation
-    const conversationsWithUsers = await Promise.all(
-      conversations.map(async (conv) => {
-        const otherUserId = conv.user1Id === req.user!.id ? conv.user2Id : conv.user1Id;
-        const otherUser = await storage.getUser(otherUserId);
-        return {
-          ...conv,
-          otherUser,
-        };
-      })
-    );
-
-    res.json(conversationsWithUsers);
+    res.json(await Promise.all(conversations.map((conv) => withParticipants(conv, req.user!.id))));
   });
 
   app.post("/api/conversations", async (req, res) => {
@@ -45,28 +327,153 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "User not found" });
     }
 
-    // Check if conversation already exists
-    const existingConversations = await storage.getConversations(req.user!.id);
-    const existingConversation = existingConversations.find(conv =>
-      (conv.user1Id === req.user!.id && conv.user2Id === otherUser.id) ||
-      (conv.user1Id === otherUser.id && conv.user2Id === req.user!.id)
+    const { conversation, created } = await storage.getOrCreateDirectConversation(req.user!.id, otherUser.id);
+    res.status(created ? 201 : 200).json(await withParticipants(conversation, req.user!.id));
+  });
+
+  app.post("/api/conversations/groups", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const result = insertGroupConversationSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid group data" });
+    }
+
+    const { name, avatar, usernames } = result.data;
+    const members = await Promise.all(usernames.map((username) => storage.getUserByUsername(username)));
+    const missing = usernames.filter((_, i) => !members[i]);
+    if (missing.length > 0) {
+      return res.status(404).json({ message: `User not found: ${missing.join(", ")}` });
+    }
+
+    const conversation = await storage.createGroupConversation(
+      req.user!.id,
+      { name, avatar },
+      members.map((member) => member!.id),
     );
+    res.status(201).json(await withParticipants(conversation, req.user!.id));
+  });
+
+  app.post("/api/conversations/:id/participants", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-    if (existingConversation) {
-      const otherUserDetails = await storage.getUser(otherUser.id);
-      return res.json({ ...existingConversation, otherUser: otherUserDetails });
+    const conversationId = parseInt(req.params.id);
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation || !(await storage.isConversationParticipant(conversationId, req.user!.id))) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+    if (!conversation.isGroup) {
+      return res.status(400).json({ message: "Members can only be added to groups" });
+    }
+
+    const user = await storage.getUserByUsername(req.body.username);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
     }
 
-    const conversation = await storage.createConversation(req.user!.id, otherUser.id);
-    res.status(201).json({ ...conversation, otherUser });
+    await storage.addConversationParticipant(conversationId, user.id);
+    await broadcastToConversation(conversationId, { type: "conversation.updated", conversationId });
+    res.status(201).json(await withParticipants(conversation, req.user!.id));
+  });
+
+  // Only the group's creator may remove other members; anyone may remove
+  // themselves, which leaves the group
+  app.delete("/api/conversations/:id/participants/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const removedUserId = Number(req.params.userId);
+    if (!Number.isInteger(removedUserId) || removedUserId <= 0) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+
+    const conversationId = parseInt(req.params.id);
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation || !(await storage.isConversationParticipant(conversationId, req.user!.id))) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+    if (!conversation.isGroup) {
+      return res.status(400).json({ message: "Members can only be removed from groups" });
+    }
+    if (removedUserId !== req.user!.id && conversation.createdBy !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+    if (!(await storage.isConversationParticipant(conversationId, removedUserId))) {
+      return res.status(404).json({ message: "Member not found" });
+    }
+
+    await storage.removeConversationParticipant(conversationId, removedUserId);
+    // Their open sockets stop getting typing events for the conversation
+    clients.get(removedUserId)?.forEach((client) => {
+      if (client.conversationId === conversationId) client.conversationId = undefined;
+    });
+    const event: ServerEvent = { type: "conversation.updated", conversationId };
+    sendToUser(removedUserId, JSON.stringify(event));
+    await broadcastToConversation(conversationId, event);
+    res.sendStatus(204);
   });
 
   app.get("/api/conversations/:id/messages", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const messages = await storage.getMessages(parseInt(req.params.id));
-    // Mark messages as read when fetched
-    await storage.markConversationMessagesAsRead(parseInt(req.params.id), req.user!.id);
-    res.json(messages);
+
+    const query = messagePageQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    const conversationId = parseInt(req.params.id);
+    if (!(await storage.isConversationParticipant(conversationId, req.user!.id))) {
+      return res.sendStatus(403);
+    }
+    const { before, after, around, limit } = query.data;
+    const viewerId = req.user!.id;
+
+    let messages: Message[];
+    let hasOlder: boolean;
+    let hasNewer: boolean;
+    if (around !== undefined) {
+      // The message and the older half of the page, then the newer half,
+      // each with one extra to know whether there are more
+      const olderCount = Math.ceil(limit / 2);
+      const older = await storage.getMessages(conversationId, { before: around + 1, limit: olderCount + 1, viewerId });
+      const newer = await storage.getMessages(conversationId, { after: around, limit: limit - olderCount + 1, viewerId });
+      hasOlder = older.length > olderCount;
+      hasNewer = newer.length > limit - olderCount;
+      messages = [...older.slice(-olderCount), ...newer.slice(0, limit - olderCount)];
+    } else {
+      // Fetch one extra message to know whether another page exists
+      const fetched = await storage.getMessages(conversationId, { before, after, limit: limit + 1, viewerId });
+      const hasMore = fetched.length > limit;
+      messages = after !== undefined ? fetched.slice(0, limit) : fetched.slice(-limit);
+      // A cursor always skips messages on its own side of the page
+      hasOlder = after !== undefined || hasMore;
+      hasNewer = after !== undefined ? hasMore : before !== undefined;
+    }
+
+    const page: MessagePage = {
+      messages: await toMessageViews(messages),
+      prevCursor: hasOlder ? messages[0]?.id ?? null : null,
+      nextCursor: hasNewer ? messages[messages.length - 1]?.id ?? null : null,
+    };
+
+    // Mark messages and mentions as read when fetched
+    await storage.markConversationMessagesAsRead(conversationId, req.user!.id);
+    await storage.markMentionsAsRead(conversationId, req.user!.id);
+    res.json(page);
+  });
+
+  // Marks the conversation's messages and mentions as read for the current
+  // user, for messages that arrived over the WebSocket while it was open
+  app.post("/api/conversations/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const conversationId = parseInt(req.params.id);
+    if (!(await storage.isConversationParticipant(conversationId, req.user!.id))) {
+      return res.sendStatus(403);
+    }
+
+    await storage.markConversationMessagesAsRead(conversationId, req.user!.id);
+    await storage.markMentionsAsRead(conversationId, req.user!.id);
+    res.sendStatus(204);
   });
 
   app.post("/api/conversations/:id/messages", async (req, res) => {
@@ -75,21 +482,404 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const result = insertMessageSchema.safeParse({
       conversationId: parseInt(req.params.id),
       content: req.body.content,
-      replyToId: req.body.replyToId
+      replyToId: req.body.replyToId,
+      threadOnly: req.body.threadOnly,
+      attachmentIds: req.body.attachmentIds,
+      kind: req.body.kind,
+    });
+
+    if (
+      !result.success ||
+      (result.data.threadOnly && result.data.replyToId === undefined) ||
+      (result.data.content.trim() === "" && !result.data.attachmentIds?.length)
+    ) {
+      return res.status(400).json({ message: "Invalid message data" });
+    }
+
+    const { conversationId, content, replyToId, threadOnly, attachmentIds = [] } = result.data;
+    if (!(await storage.isConversationParticipant(conversationId, req.user!.id))) {
+      return res.sendStatus(403);
+    }
+
+    // Only the sender's own uploads to this conversation that were not sent yet
+    const attachments: Attachment[] = [];
+    for (const attachmentId of attachmentIds) {
+      const attachment = await storage.getAttachment(attachmentId);
+      if (
+        !attachment ||
+        attachment.uploaderId !== req.user!.id ||
+        attachment.conversationId !== conversationId ||
+        attachment.messageId !== null
+      ) {
+        return res.status(400).json({ message: "Invalid attachment" });
+      }
+      attachments.push(attachment);
+    }
+
+    // A voice message is one recording, which is the only kind of upload with a duration
+    const kind = result.data.kind ?? (attachments.length > 0 ? "file" : "text");
+    const matchesKind = {
+      text: attachments.length === 0,
+      file: attachments.length > 0,
+      audio: attachments.length === 1 && attachments[0].durationMs !== null && content.trim() === "",
+    }[kind];
+    if (!matchesKind) {
+      return res.status(400).json({ message: "Invalid message data" });
+    }
+
+    if (replyToId !== undefined) {
+      const original = await storage.getMessage(replyToId);
+      if (!original || original.conversationId !== conversationId) {
+        return res.status(400).json({ message: "Invalid message data" });
+      }
+    }
+
+    const message = await storage.createMessage(conversationId, req.user!.id, content, replyToId, {
+      threadOnly,
+      attachmentIds,
+      kind,
     });
+    const view = await toMessageView(message);
+    await broadcastToConversation(conversationId, { type: "message.created", conversationId, message: view });
+
+    const mention: ServerEvent = { type: "mention.created", message: view };
+    const mentionPayload = JSON.stringify(mention);
+    (await storage.getMentionedUserIds(message.id)).forEach((userId) => sendToUser(userId, mentionPayload));
+
+    if (replyToId !== undefined) {
+      const replyCount = (await storage.getReplyCounts([replyToId])).get(replyToId) ?? 0;
+      await broadcastToConversation(conversationId, {
+        type: "thread.updated",
+        conversationId,
+        messageId: replyToId,
+        replyCount,
+      });
+    }
 
+    res.status(201).json(view);
+  });
+
+  app.patch("/api/conversations/:id/messages/:messageId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const result = editMessageSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ message: "Invalid message data" });
     }
 
-    const message = await storage.createMessage(
-      parseInt(req.params.id),
-      req.user!.id,
-      req.body.content,
-      req.body.replyToId
+    const message = await findConversationMessage(req, res);
+    if (!message) return;
+    if (message.senderId !== req.user!.id) {
+      return res.status(403).json({ message: "Only the sender can edit a message" });
+    }
+    if (message.deletedAt) {
+      return res.status(400).json({ message: "Deleted messages cannot be edited" });
+    }
+    if (message.kind === "audio") {
+      return res.status(400).json({ message: "Voice messages cannot be edited" });
+    }
+
+    const edited = await toMessageView((await storage.editMessage(message.id, result.data.content))!);
+    await broadcastToConversation(message.conversationId, { type: "message.edited", message: edited });
+    res.json(edited);
+  });
+
+  // scope=me hides the message for the caller; scope=everyone replaces it with
+  // a tombstone for all participants
+  app.delete("/api/conversations/:id/messages/:messageId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = deleteMessageQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid delete scope" });
+    }
+
+    const message = await findConversationMessage(req, res);
+    if (!message) return;
+
+    if (query.data.scope === "me") {
+      await storage.hideMessage(message.id, req.user!.id);
+      return res.sendStatus(204);
+    }
+
+    if (message.senderId !== req.user!.id) {
+      return res.status(403).json({ message: "Only the sender can delete a message for everyone" });
+    }
+    if (!message.deletedAt && Date.now() - message.timestamp.getTime() > deleteForEveryoneWindowMs) {
+      return res.status(403).json({ message: "This message can no longer be deleted for everyone" });
+    }
+
+    const attachments = await storage.getAttachments([message.id]);
+    const tombstone = await toMessageView((await storage.deleteMessage(message.id))!);
+    await Promise.all(attachments.flatMap(attachmentBlobKeys).map((key) => blobStore.delete(key)));
+    await broadcastToConversation(message.conversationId, { type: "message.deleted", message: tombstone });
+    res.json(tombstone);
+  });
+
+  app.post("/api/conversations/:id/messages/:messageId/reactions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const result = reactionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid reaction" });
+    }
+
+    const message = await findConversationMessage(req, res);
+    if (!message) return;
+    if (message.deletedAt) {
+      return res.status(400).json({ message: "Deleted messages cannot be reacted to" });
+    }
+
+    await storage.addReaction(message.id, req.user!.id, result.data.emoji);
+    const { reactions } = await toMessageView(message);
+    await broadcastToConversation(message.conversationId, {
+      type: "message.reactions",
+      conversationId: message.conversationId,
+      messageId: message.id,
+      reactions,
+    });
+    res.json(reactions);
+  });
+
+  app.delete("/api/conversations/:id/messages/:messageId/reactions/:emoji", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const result = reactionSchema.safeParse({ emoji: req.params.emoji });
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid reaction" });
+    }
+
+    const message = await findConversationMessage(req, res);
+    if (!message) return;
+
+    await storage.removeReaction(message.id, req.user!.id, result.data.emoji);
+    const { reactions } = await toMessageView(message);
+    await broadcastToConversation(message.conversationId, {
+      type: "message.reactions",
+      conversationId: message.conversationId,
+      messageId: message.id,
+      reactions,
+    });
+    res.json(reactions);
+  });
+
+  app.get("/api/conversations/:id/messages/:messageId/thread", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const root = await findConversationMessage(req, res);
+    if (!root) return;
+
+    const replies = await storage.getReplies(root.id, req.user!.id);
+    const [rootView, ...replyViews] = await toMessageViews([root, ...replies]);
+    const thread: ThreadView = { root: rootView, replies: replyViews };
+    res.json(thread);
+  });
+
+  app.get("/api/conversations/:id/messages/:messageId/edits", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const message = await findConversationMessage(req, res);
+    if (!message) return;
+
+    res.json(await storage.getMessageEdits(message.id));
+  });
+
+  // Newest pin first
+  app.get("/api/conversations/:id/pins", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const conversationId = parseInt(req.params.id);
+    if (!(await storage.isConversationParticipant(conversationId, req.user!.id))) {
+      return res.sendStatus(403);
+    }
+
+    res.json(await toPinViews(await storage.getPinnedMessages(conversationId)));
+  });
+
+  app.post("/api/conversations/:id/messages/:messageId/pin", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const message = await findConversationMessage(req, res);
+    if (!message) return;
+    if (message.deletedAt) {
+      return res.status(400).json({ message: "Deleted messages cannot be pinned" });
+    }
+
+    const [pin] = await toPinViews([await storage.pinMessage(message.conversationId, message.id, req.user!.id)]);
+    await broadcastToConversation(message.conversationId, {
+      type: "pin.added",
+      conversationId: message.conversationId,
+      pin,
+    });
+    res.status(201).json(pin);
+  });
+
+  app.delete("/api/conversations/:id/messages/:messageId/pin", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const message = await findConversationMessage(req, res);
+    if (!message) return;
+
+    if (await storage.unpinMessage(message.id)) {
+      await broadcastToConversation(message.conversationId, {
+        type: "pin.removed",
+        conversationId: message.conversationId,
+        messageId: message.id,
+      });
+    }
+    res.sendStatus(204);
+  });
+
+  // Status of everyone the current user shares a conversation with
+  app.get("/api/presence", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const contacts = await Promise.all(
+      (await storage.getContactIds(req.user!.id)).map((id) => storage.getUser(id)),
     );
+    const views: PresenceView[] = contacts.flatMap((contact) => contact ? [{
+      userId: contact.id,
+      status: presence.get(contact.id) ?? "offline",
+      lastSeenAt: contact.lastSeenAt,
+    }] : []);
+    res.json(views);
+  });
+
+  // The file is the raw request body; it stays pending until sent with a message
+  app.post(
+    "/api/conversations/:id/attachments",
+    requireParticipant,
+    express.raw({ type: () => true, limit: maxAttachmentBytes }),
+    async (req, res) => {
+      const query = uploadAttachmentQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        const unsupportedType = query.error.issues.some((issue) => issue.path[0] === "type");
+        return res.status(400).json({ message: unsupportedType ? "Unsupported file type" : "Invalid upload parameters" });
+      }
+
+      const conversationId = parseInt(req.params.id);
+      const data: unknown = req.body;
+      if (!Buffer.isBuffer(data) || data.length === 0) {
+        return res.status(400).json({ message: "The file is empty" });
+      }
+      if (!matchesFileSignature(query.data.type, data)) {
+        return res.status(400).json({ message: "The file does not match its type" });
+      }
+      const { durationMs, waveform } = query.data;
+      if ((durationMs !== undefined || waveform !== undefined) && !query.data.type.startsWith("audio/")) {
+        return res.status(400).json({ message: "Only recordings have a duration and waveform" });
+      }
+
+      let image: ProcessedImage | undefined;
+      if (query.data.type.startsWith("image/")) {
+        try {
+          image = await processImage(data);
+        } catch {
+          return res.status(400).json({ message: "The image could not be read" });
+        }
+      }
 
-    res.status(201).json(message);
+      const storageKey = randomUUID();
+      await blobStore.put(storageKey, data);
+      await Promise.all((image?.thumbnails ?? []).map(({ width, data: thumbnail }) => {
+        return blobStore.put(thumbnailKey(storageKey, width), thumbnail);
+      }));
+      const attachment = await storage.createAttachment({
+        conversationId,
+        uploaderId: req.user!.id,
+        filename: query.data.filename,
+        mimeType: query.data.type,
+        size: data.length,
+        storageKey,
+        width: image?.width,
+        height: image?.height,
+        blurhash: image?.blurhash,
+        durationMs,
+        waveform,
+      });
+      res.status(201).json(toAttachmentView(attachment));
+    },
+  );
+
+  app.get("/api/attachments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const attachment = await findAttachment(req, res);
+    if (!attachment) return;
+
+    const stream = await blobStore.get(attachment.storageKey);
+    if (!stream) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+
+    // res.attachment encodes the filename safely; images are then shown inline
+    res.attachment(attachment.filename);
+    const disposition = String(res.getHeader("Content-Disposition"));
+    res.set({
+      "Content-Type": attachment.mimeType,
+      "Content-Length": String(attachment.size),
+      "Content-Disposition": attachment.mimeType.startsWith("image/")
+        ? disposition.replace(/^attachment/, "inline")
+        : disposition,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=86400",
+    });
+    stream.on("error", () => res.destroy());
+    stream.pipe(res);
+  });
+
+  // Discards one of your own uploads before it is sent
+  app.delete("/api/attachments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const attachment = await findAttachment(req, res);
+    if (!attachment) return;
+    if (attachment.uploaderId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+
+    const deleted = await storage.deletePendingAttachment(attachment.id);
+    if (!deleted) {
+      return res.status(409).json({ message: "The attachment has already been sent" });
+    }
+    await Promise.all(attachmentBlobKeys(deleted).map((key) => blobStore.delete(key)));
+    res.sendStatus(204);
+  });
+
+  // Scaled-down WebP copy of an image attachment at one of thumbnailWidths
+  app.get("/api/attachments/:id/thumbnail", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = thumbnailQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid thumbnail width" });
+    }
+
+    const attachment = await findAttachment(req, res);
+    if (!attachment) return;
+    // Images uploaded before thumbnails existed have no size recorded
+    const stream = attachment.width === null
+      ? undefined
+      : await blobStore.get(thumbnailKey(attachment.storageKey, query.data.width));
+    if (!stream) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+
+    res.set({
+      "Content-Type": "image/webp",
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=86400",
+    });
+    stream.on("error", () => res.destroy());
+    stream.pipe(res);
+  });
+
+  // Unread messages that mention the current user, newest first
+  app.get("/api/mentions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const mentions = await storage.getUnreadMentions(req.user!.id);
+    res.json(await toMessageViews(mentions));
   });
 
   app.post("/api/user/change-password", async (req, res) => {
@@ -128,55 +918,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
+  removeStaleAttachments().catch(logSweepError);
+  const sweep = setInterval(() => removeStaleAttachments().catch(logSweepError), staleAttachmentSweepMs);
+  httpServer.on("close", () => clearInterval(sweep));
+
   // Setup WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // Connections take the user from the session cookie, like the REST API;
+  // upgrades without a logged-in session are refused
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: ({ req }, done) => {
+      authenticateRequest(req).then(
+        (user) => (user ? done(true) : done(false, 401, "Unauthorized")),
+        (err) => {
+          console.error('WebSocket authentication error:', err);
+          done(false, 500);
+        },
+      );
+    },
+  });
 
-  wss.on('connection', (ws: WebSocket, req) => {
-    let userId: number | undefined;
-    console.log('New WebSocket connection attempt');
+  wss.on('connection', (ws: WebSocket, req: Request) => {
+    const userId = req.user!.id;
+    const client: Client = { userId, ws, active: true };
+    addClient(client);
+    updatePresence(userId).catch(logPresenceError);
+    console.log(`WebSocket connection established for user ${userId}`);
 
-    ws.on('message', (data: string) => {
+    ws.on('message', async (data: string) => {
       try {
-        const message = JSON.parse(data);
+        const message: ClientEvent = JSON.parse(data);
         console.log('Received WebSocket message:', message.type);
 
         switch (message.type) {
-          case 'init':
-            userId = message.userId;
-            if (userId) {
-              console.log(`Initializing WebSocket for user ${userId}`);
-              // Remove any existing connection for this user
-              const existingClient = clients.get(userId);
-              if (existingClient) {
-                existingClient.ws.close();
-                clients.delete(userId);
-              }
-              clients.set(userId, { userId, ws });
-              console.log(`WebSocket connection established for user ${userId}`);
+          case 'view': {
+            const { conversationId } = message;
+            if (conversationId === null) {
+              client.conversationId = undefined;
+            } else if (await storage.isConversationParticipant(conversationId, userId)) {
+              client.conversationId = conversationId;
             }
             break;
+          }
+
+          case 'activity':
+            client.active = message.active;
+            await updatePresence(userId);
+            break;
 
           case 'typing':
-            if (!userId) {
-              console.log('Typing event received but no userId set');
-              return;
-            }
             const { conversationId, isTyping } = message;
-            const conversation = clients.get(userId);
-            if (conversation) {
-              conversation.conversationId = conversationId;
+            // Typing is only shared between participants
+            if (!(await storage.isConversationParticipant(conversationId, userId))) {
+              return;
             }
 
-            // Notify the other user in the conversation
-            for (const client of clients.values()) {
-              if (client.conversationId === conversationId && client.userId !== userId) {
-                client.ws.send(JSON.stringify({
-                  type: 'typing',
-                  userId,
-                  isTyping
-                }));
-              }
-            }
+            // Notify the other participants' sockets that are in the conversation
+            clients.forEach((userClients, otherUserId) => {
+              if (otherUserId === userId) return;
+              userClients.forEach((other) => {
+                if (other.conversationId === conversationId && other.ws.readyState === WebSocket.OPEN) {
+                  send(other.ws, { type: 'typing', conversationId, userId, isTyping });
+                }
+              });
+            });
             break;
         }
       } catch (err) {
@@ -185,14 +991,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     ws.on('close', () => {
-      if (userId) {
-        console.log(`WebSocket connection closed for user ${userId}`);
-        clients.delete(userId);
-      }
+      console.log(`WebSocket connection closed for user ${userId}`);
+      removeClient(client);
+      updatePresence(userId).catch(logPresenceError);
     });
 
     // Send an initial ping to establish connection
-    ws.send(JSON.stringify({ type: 'ping' }));
+    send(ws, { type: 'ping' });
   });
 
   return httpServer;
@@ -0,0 +1,265 @@
+import { sqliteTable, text, integer, uniqueIndex, primaryKey, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
+import { messageKinds } from "@shared/schema";
+
+// SQLite mirror of the tables in @shared/schema. Column names and row shapes
+// must stay in sync so both backends return the same User/Conversation/Message types.
+
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  profilePicture: text("profile_picture"),
+  lastSeenAt: integer("last_seen_at", { mode: "timestamp_ms" }),
+});
+
+export const conversations = sqliteTable("conversations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  user1Id: integer("user1_id").references(() => users.id),
+  user2Id: integer("user2_id").references(() => users.id),
+  isGroup: integer("is_group", { mode: "boolean" }).default(false).notNull(),
+  name: text("name"),
+  avatar: text("avatar"),
+  createdBy: integer("created_by").references(() => users.id),
+}, (table) => [
+  uniqueIndex("conversations_user_pair_unique").on(table.user1Id, table.user2Id),
+]);
+
+export const conversationParticipants = sqliteTable("conversation_participants", {
+  conversationId: integer("conversation_id").references(() => conversations.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  joinedAt: integer("joined_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  primaryKey({ columns: [table.conversationId, table.userId] }),
+]);
+
+export const messages = sqliteTable("messages", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  conversationId: integer("conversation_id").references(() => conversations.id).notNull(),
+  senderId: integer("sender_id").references(() => users.id).notNull(),
+  content: text("content").notNull(),
+  timestamp: integer("timestamp", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  read: integer("read", { mode: "boolean" }).default(false).notNull(),
+  replyToId: integer("reply_to_id").references((): AnySQLiteColumn => messages.id),
+  editedAt: integer("edited_at", { mode: "timestamp_ms" }),
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+  threadOnly: integer("thread_only", { mode: "boolean" }).default(false).notNull(),
+  hasCode: integer("has_code", { mode: "boolean" }).default(false).notNull(),
+  kind: text("kind", { enum: messageKinds }).default("text").notNull(),
+});
+
+export const hiddenMessages = sqliteTable("hidden_messages", {
+  userId: integer("user_id").references(() => users.id).notNull(),
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  hiddenAt: integer("hidden_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.messageId] }),
+]);
+
+export const messageEdits = sqliteTable("message_edits", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  content: text("content").notNull(),
+  editedAt: integer("edited_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const messageReactions = sqliteTable("message_reactions", {
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  emoji: text("emoji").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  primaryKey({ columns: [table.messageId, table.userId, table.emoji] }),
+]);
+
+export const messageMentions = sqliteTable("message_mentions", {
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  readAt: integer("read_at", { mode: "timestamp_ms" }),
+}, (table) => [
+  primaryKey({ columns: [table.messageId, table.userId] }),
+]);
+
+export const pinnedMessages = sqliteTable("pinned_messages", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  messageId: integer("message_id").references(() => messages.id).notNull().unique(),
+  conversationId: integer("conversation_id").references(() => conversations.id).notNull(),
+  pinnedBy: integer("pinned_by").references(() => users.id).notNull(),
+  pinnedAt: integer("pinned_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const attachments = sqliteTable("attachments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  conversationId: integer("conversation_id").references(() => conversations.id).notNull(),
+  uploaderId: integer("uploader_id").references(() => users.id).notNull(),
+  messageId: integer("message_id").references(() => messages.id),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull().unique(),
+  width: integer("width"),
+  height: integer("height"),
+  blurhash: text("blurhash"),
+  durationMs: integer("duration_ms"),
+  waveform: text("waveform", { mode: "json" }).$type<number[]>(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Applied in order on boot; the index of the last applied entry is kept in
+// PRAGMA user_version. Append new entries, never edit released ones. Foreign
+// keys are not enforced while they run, so tables can be rebuilt in place.
+export const schemaVersions: string[][] = [
+  [
+    `CREATE TABLE users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL UNIQUE,
+      password TEXT NOT NULL,
+      profile_picture TEXT
+    )`,
+    `CREATE TABLE conversations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user1_id INTEGER NOT NULL REFERENCES users(id),
+      user2_id INTEGER NOT NULL REFERENCES users(id)
+    )`,
+    `CREATE TABLE messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      conversation_id INTEGER NOT NULL REFERENCES conversations(id),
+      sender_id INTEGER NOT NULL REFERENCES users(id),
+      content TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      read INTEGER NOT NULL DEFAULT 0,
+      reply_to_id INTEGER REFERENCES messages(id)
+    )`,
+    `CREATE INDEX messages_conversation_idx ON messages (conversation_id, timestamp)`,
+  ],
+  [
+    `DROP INDEX messages_conversation_idx`,
+    `CREATE INDEX messages_conversation_id_idx ON messages (conversation_id, id)`,
+  ],
+  [
+    // Merge duplicate direct conversations into the oldest one per pair, then
+    // store pairs normalised so the unique index allows one per pair
+    `UPDATE messages SET conversation_id = (
+      SELECT min(k.id) FROM conversations c JOIN conversations k
+        ON min(k.user1_id, k.user2_id) = min(c.user1_id, c.user2_id)
+        AND max(k.user1_id, k.user2_id) = max(c.user1_id, c.user2_id)
+      WHERE c.id = messages.conversation_id
+    )`,
+    `DELETE FROM conversations WHERE id NOT IN (
+      SELECT min(id) FROM conversations GROUP BY min(user1_id, user2_id), max(user1_id, user2_id)
+    )`,
+    `UPDATE conversations SET user1_id = user2_id, user2_id = user1_id WHERE user1_id > user2_id`,
+    `CREATE UNIQUE INDEX conversations_user_pair_unique ON conversations (user1_id, user2_id)`,
+  ],
+  [
+    // SQLite cannot drop NOT NULL from the pair columns, so the table is rebuilt
+    `CREATE TABLE conversations_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user1_id INTEGER REFERENCES users(id),
+      user2_id INTEGER REFERENCES users(id),
+      is_group INTEGER NOT NULL DEFAULT 0,
+      name TEXT,
+      avatar TEXT,
+      CHECK (is_group OR (user1_id IS NOT NULL AND user2_id IS NOT NULL))
+    )`,
+    `INSERT INTO conversations_new (id, user1_id, user2_id) SELECT id, user1_id, user2_id FROM conversations`,
+    `DROP TABLE conversations`,
+    `ALTER TABLE conversations_new RENAME TO conversations`,
+    `CREATE UNIQUE INDEX conversations_user_pair_unique ON conversations (user1_id, user2_id)`,
+    `CREATE TABLE conversation_participants (
+      conversation_id INTEGER NOT NULL REFERENCES conversations(id),
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      joined_at INTEGER NOT NULL,
+      PRIMARY KEY (conversation_id, user_id)
+    )`,
+    `CREATE INDEX conversation_participants_user_id_idx ON conversation_participants (user_id)`,
+    `INSERT INTO conversation_participants (conversation_id, user_id, joined_at)
+      SELECT id, user1_id, strftime('%s', 'now') * 1000 FROM conversations
+      UNION
+      SELECT id, user2_id, strftime('%s', 'now') * 1000 FROM conversations`,
+  ],
+  [
+    `ALTER TABLE messages ADD COLUMN edited_at INTEGER`,
+    `CREATE TABLE message_edits (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id INTEGER NOT NULL REFERENCES messages(id),
+      content TEXT NOT NULL,
+      edited_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX message_edits_message_id_idx ON message_edits (message_id)`,
+  ],
+  [
+    `ALTER TABLE messages ADD COLUMN deleted_at INTEGER`,
+    `CREATE TABLE hidden_messages (
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      message_id INTEGER NOT NULL REFERENCES messages(id),
+      hidden_at INTEGER NOT NULL,
+      PRIMARY KEY (user_id, message_id)
+    )`,
+  ],
+  [
+    `CREATE TABLE message_reactions (
+      message_id INTEGER NOT NULL REFERENCES messages(id),
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      emoji TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (message_id, user_id, emoji)
+    )`,
+  ],
+  [
+    `ALTER TABLE messages ADD COLUMN thread_only INTEGER NOT NULL DEFAULT 0`,
+    `CREATE INDEX messages_reply_to_id_idx ON messages (reply_to_id)`,
+  ],
+  [
+    `CREATE TABLE message_mentions (
+      message_id INTEGER NOT NULL REFERENCES messages(id),
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      created_at INTEGER NOT NULL,
+      read_at INTEGER,
+      PRIMARY KEY (message_id, user_id)
+    )`,
+    `CREATE INDEX message_mentions_user_id_idx ON message_mentions (user_id)`,
+  ],
+  [
+    `ALTER TABLE messages ADD COLUMN has_code INTEGER NOT NULL DEFAULT 0`,
+    // Close enough for existing rows: new and edited messages are tagged by the parser
+    "UPDATE messages SET has_code = 1 WHERE content LIKE '%```%'",
+  ],
+  [
+    `CREATE TABLE attachments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      conversation_id INTEGER NOT NULL REFERENCES conversations(id),
+      uploader_id INTEGER NOT NULL REFERENCES users(id),
+      message_id INTEGER REFERENCES messages(id),
+      filename TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      storage_key TEXT NOT NULL UNIQUE,
+      created_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX attachments_message_id_idx ON attachments (message_id)`,
+  ],
+  [
+    `ALTER TABLE attachments ADD COLUMN width INTEGER`,
+    `ALTER TABLE attachments ADD COLUMN height INTEGER`,
+    `ALTER TABLE attachments ADD COLUMN blurhash TEXT`,
+  ],
+  [
+    `ALTER TABLE attachments ADD COLUMN duration_ms INTEGER`,
+    `ALTER TABLE attachments ADD COLUMN waveform TEXT`,
+    `ALTER TABLE messages ADD COLUMN kind TEXT NOT NULL DEFAULT 'text'`,
+    `UPDATE messages SET kind = 'file' WHERE id IN (SELECT message_id FROM attachments WHERE message_id IS NOT NULL)`,
+  ],
+  [
+    `CREATE TABLE pinned_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id INTEGER NOT NULL UNIQUE REFERENCES messages(id),
+      conversation_id INTEGER NOT NULL REFERENCES conversations(id),
+      pinned_by INTEGER NOT NULL REFERENCES users(id),
+      pinned_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX pinned_messages_conversation_id_idx ON pinned_messages (conversation_id)`,
+  ],
+  [`ALTER TABLE users ADD COLUMN last_seen_at INTEGER`],
+  [`ALTER TABLE conversations ADD COLUMN created_by INTEGER REFERENCES users(id)`],
+];
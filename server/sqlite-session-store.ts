@@ -0,0 +1,73 @@
+import session from "express-session";
+import type { Client } from "@libsql/client";
+
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+export class SqliteSessionStore extends session.Store {
+  private ready: Promise<void> | undefined;
+
+  constructor(private client: Client) {
+    super();
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.client
+        .batch([
+          "CREATE TABLE IF NOT EXISTS sessions (sid TEXT PRIMARY KEY, sess TEXT NOT NULL, expire INTEGER NOT NULL)",
+          "CREATE INDEX IF NOT EXISTS sessions_expire_idx ON sessions (expire)",
+        ], "write")
+        .then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  private expiry(sess: session.SessionData): number {
+    const expires = sess.cookie?.expires;
+    if (expires) return new Date(expires).getTime();
+    return Date.now() + (sess.cookie?.maxAge ?? DEFAULT_MAX_AGE);
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    this.ensureTable()
+      .then(() => this.client.execute({
+        sql: "SELECT sess FROM sessions WHERE sid = ? AND expire >= ?",
+        args: [sid, Date.now()],
+      }))
+      .then((result) => {
+        const row = result.rows[0];
+        callback(null, row ? JSON.parse(row.sess as string) : null);
+      })
+      .catch((err) => callback(err));
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void): void {
+    this.ensureTable()
+      .then(() => this.client.batch([
+        { sql: "DELETE FROM sessions WHERE expire < ?", args: [Date.now()] },
+        {
+          sql: "INSERT INTO sessions (sid, sess, expire) VALUES (?, ?, ?) ON CONFLICT (sid) DO UPDATE SET sess = excluded.sess, expire = excluded.expire",
+          args: [sid, JSON.stringify(sess), this.expiry(sess)],
+        },
+      ], "write"))
+      .then(() => callback?.())
+      .catch((err) => callback?.(err));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.ensureTable()
+      .then(() => this.client.execute({ sql: "DELETE FROM sessions WHERE sid = ?", args: [sid] }))
+      .then(() => callback?.())
+      .catch((err) => callback?.(err));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    this.ensureTable()
+      .then(() => this.client.execute({
+        sql: "UPDATE sessions SET expire = ? WHERE sid = ?",
+        args: [this.expiry(sess), sid],
+      }))
+      .then(() => callback?.())
+      .catch(() => callback?.());
+  }
+}
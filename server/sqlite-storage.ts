@@ -0,0 +1,558 @@
+import {
+  parseMentions,
+  type User,
+  type InsertUser,
+  type Conversation,
+  type Message,
+  type MessageEdit,
+  type MessageReaction,
+  type Attachment,
+  type InsertAttachment,
+  type PinnedMessage,
+} from "@shared/schema";
+import { createClient, type Client } from "@libsql/client";
+import { drizzle, type LibSQLDatabase } from "drizzle-orm/libsql";
+import { and, asc, count, desc, eq, getTableColumns, gt, inArray, isNull, lt, ne, notExists, sql } from "drizzle-orm";
+import session from "express-session";
+import { hasCodeBlock } from "@shared/markdown";
+import fs from "fs";
+import path from "path";
+import * as schema from "./sqlite-schema";
+import {
+  users,
+  conversations,
+  conversationParticipants,
+  messages,
+  messageEdits,
+  hiddenMessages,
+  messageReactions,
+  messageMentions,
+  pinnedMessages,
+  attachments,
+  schemaVersions,
+} from "./sqlite-schema";
+import { SqliteSessionStore } from "./sqlite-session-store";
+import type { DirectConversationResult, GroupDetails, IStorage, MessageOptions, MessageQuery } from "./storage";
+
+type SqliteDatabase = LibSQLDatabase<typeof schema>;
+type SqliteTransaction = Parameters<Parameters<SqliteDatabase["transaction"]>[0]>[0];
+
+async function migrate(client: Client): Promise<void> {
+  // Foreign keys can only be toggled outside a transaction
+  await client.execute("PRAGMA foreign_keys = OFF");
+  const result = await client.execute("PRAGMA user_version");
+  const currentVersion = Number(result.rows[0]?.user_version ?? 0);
+
+  for (let version = currentVersion; version < schemaVersions.length; version++) {
+    await client.batch([
+      ...schemaVersions[version],
+      `PRAGMA user_version = ${version + 1}`,
+    ], "write");
+  }
+
+  await client.execute("PRAGMA foreign_keys = ON");
+}
+
+export class SqliteStorage implements IStorage {
+  private client: Client;
+  private db: SqliteDatabase;
+  private ready: Promise<void>;
+  // Settles when the last queued transaction has. libsql fails a second open
+  // transaction rather than waiting for the first (SQLITE_BUSY on a file, and
+  // in memory its one connection is taken), so they run one at a time.
+  private transactions: Promise<void> = Promise.resolve();
+  sessionStore: session.Store;
+
+  // Pass a file path to persist data, or ":memory:" for a throwaway database
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+    this.client = createClient({ url: filename === ":memory:" ? filename : `file:${filename}` });
+    this.db = drizzle(this.client, { schema });
+    this.ready = migrate(this.client);
+    this.sessionStore = new SqliteSessionStore(this.client);
+  }
+
+  private async database(): Promise<SqliteDatabase> {
+    await this.ready;
+    await this.transactions;
+    return this.db;
+  }
+
+  private transaction<T>(run: (tx: SqliteTransaction) => Promise<T>): Promise<T> {
+    const previous = this.transactions;
+    const result = this.ready.then(() => previous).then(() => this.db.transaction(run));
+    this.transactions = result.then(() => {}, () => {});
+    return result;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const db = await this.database();
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const db = await this.database();
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const db = await this.database();
+    const [user] = await db
+      .insert(users)
+      .values({ username: insertUser.username, password: insertUser.password })
+      .returning();
+    return user;
+  }
+
+  async getConversations(userId: number): Promise<Conversation[]> {
+    const db = await this.database();
+    return db
+      .select(getTableColumns(conversations))
+      .from(conversations)
+      .innerJoin(conversationParticipants, eq(conversationParticipants.conversationId, conversations.id))
+      .where(eq(conversationParticipants.userId, userId))
+      .orderBy(asc(conversations.id));
+  }
+
+  async getOrCreateDirectConversation(userAId: number, userBId: number): Promise<DirectConversationResult> {
+    const db = await this.database();
+    const [user1Id, user2Id] = userAId <= userBId ? [userAId, userBId] : [userBId, userAId];
+
+    // The unique pair index makes concurrent callers converge on one row
+    const [created] = await db
+      .insert(conversations)
+      .values({ user1Id, user2Id })
+      .onConflictDoNothing({ target: [conversations.user1Id, conversations.user2Id] })
+      .returning();
+    const [conversation] = created
+      ? [created]
+      : await db
+          .select()
+          .from(conversations)
+          .where(and(eq(conversations.user1Id, user1Id), eq(conversations.user2Id, user2Id)));
+
+    // Inserted on every call so an interrupted earlier call is completed
+    await db
+      .insert(conversationParticipants)
+      .values(Array.from(new Set([user1Id, user2Id]), (userId) => ({ conversationId: conversation.id, userId })))
+      .onConflictDoNothing();
+    return { conversation, created: !!created };
+  }
+
+  async createGroupConversation(creatorId: number, details: GroupDetails, memberIds: number[]): Promise<Conversation> {
+    return this.transaction(async (tx) => {
+      const [conversation] = await tx
+        .insert(conversations)
+        .values({ isGroup: true, name: details.name, avatar: details.avatar ?? null, createdBy: creatorId })
+        .returning();
+      await tx
+        .insert(conversationParticipants)
+        .values(Array.from(new Set([creatorId, ...memberIds]), (userId) => ({ conversationId: conversation.id, userId })));
+      return conversation;
+    });
+  }
+
+  async getConversation(conversationId: number): Promise<Conversation | undefined> {
+    const db = await this.database();
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, conversationId));
+    return conversation;
+  }
+
+  async getConversationParticipants(conversationId: number): Promise<User[]> {
+    const db = await this.database();
+    return db
+      .select(getTableColumns(users))
+      .from(conversationParticipants)
+      .innerJoin(users, eq(users.id, conversationParticipants.userId))
+      .where(eq(conversationParticipants.conversationId, conversationId))
+      .orderBy(asc(conversationParticipants.joinedAt), asc(conversationParticipants.userId));
+  }
+
+  async isConversationParticipant(conversationId: number, userId: number): Promise<boolean> {
+    const db = await this.database();
+    const [participant] = await db
+      .select()
+      .from(conversationParticipants)
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, userId),
+      ));
+    return !!participant;
+  }
+
+  async addConversationParticipant(conversationId: number, userId: number): Promise<void> {
+    const db = await this.database();
+    await db
+      .insert(conversationParticipants)
+      .values({ conversationId, userId })
+      .onConflictDoNothing();
+  }
+
+  async removeConversationParticipant(conversationId: number, userId: number): Promise<void> {
+    const db = await this.database();
+    await db
+      .delete(conversationParticipants)
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, userId),
+      ));
+  }
+
+  async getMessages(conversationId: number, query: MessageQuery = {}): Promise<Message[]> {
+    const db = await this.database();
+    const { before, after, limit, viewerId } = query;
+    const conditions = and(
+      eq(messages.conversationId, conversationId),
+      eq(messages.threadOnly, false),
+      before !== undefined ? lt(messages.id, before) : undefined,
+      after !== undefined ? gt(messages.id, after) : undefined,
+      viewerId !== undefined
+        ? notExists(
+            db
+              .select()
+              .from(hiddenMessages)
+              .where(and(eq(hiddenMessages.userId, viewerId), eq(hiddenMessages.messageId, messages.id))),
+          )
+        : undefined,
+    );
+
+    if (after !== undefined || limit === undefined) {
+      const oldestFirst = db.select().from(messages).where(conditions).orderBy(asc(messages.id));
+      return limit === undefined ? oldestFirst : oldestFirst.limit(limit);
+    }
+
+    const newestFirst = await db
+      .select()
+      .from(messages)
+      .where(conditions)
+      .orderBy(desc(messages.id))
+      .limit(limit);
+    return newestFirst.reverse();
+  }
+
+  async createMessage(
+    conversationId: number,
+    senderId: number,
+    content: string,
+    replyToId?: number,
+    options: MessageOptions = {},
+  ): Promise<Message> {
+    return this.transaction(async (tx) => {
+      const [message] = await tx
+        .insert(messages)
+        .values({
+          conversationId,
+          senderId,
+          content,
+          replyToId: replyToId || null,
+          threadOnly: options.threadOnly ?? false,
+          kind: options.kind ?? "text",
+          hasCode: hasCodeBlock(content),
+        })
+        .returning();
+
+      const usernames = parseMentions(content);
+      if (usernames.length > 0) {
+        const mentioned = await tx
+          .select({ userId: users.id })
+          .from(conversationParticipants)
+          .innerJoin(users, eq(users.id, conversationParticipants.userId))
+          .where(and(
+            eq(conversationParticipants.conversationId, conversationId),
+            inArray(users.username, usernames),
+            ne(users.id, senderId),
+          ));
+        if (mentioned.length > 0) {
+          await tx.insert(messageMentions).values(mentioned.map(({ userId }) => ({ messageId: message.id, userId })));
+        }
+      }
+
+      const attachmentIds = options.attachmentIds ?? [];
+      if (attachmentIds.length > 0) {
+        await tx
+          .update(attachments)
+          .set({ messageId: message.id })
+          .where(and(inArray(attachments.id, attachmentIds), isNull(attachments.messageId)));
+      }
+      return message;
+    });
+  }
+
+  async updateUserPassword(userId: number, hashedPassword: string): Promise<void> {
+    const db = await this.database();
+    await db.update(users).set({ password: hashedPassword }).where(eq(users.id, userId));
+  }
+
+  async updateUserProfilePicture(userId: number, profilePicture: string | null): Promise<void> {
+    const db = await this.database();
+    await db.update(users).set({ profilePicture }).where(eq(users.id, userId));
+  }
+
+  async updateUserLastSeen(userId: number, lastSeenAt: Date): Promise<void> {
+    const db = await this.database();
+    await db.update(users).set({ lastSeenAt }).where(eq(users.id, userId));
+  }
+
+  async getContactIds(userId: number): Promise<number[]> {
+    const db = await this.database();
+    const conversationIds = db
+      .select({ id: conversationParticipants.conversationId })
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.userId, userId));
+    const contacts = await db
+      .selectDistinct({ userId: conversationParticipants.userId })
+      .from(conversationParticipants)
+      .where(and(
+        inArray(conversationParticipants.conversationId, conversationIds),
+        ne(conversationParticipants.userId, userId),
+      ));
+    return contacts.map((contact) => contact.userId);
+  }
+
+  async updateMessageReadStatus(messageId: number, read: boolean): Promise<void> {
+    const db = await this.database();
+    await db.update(messages).set({ read }).where(eq(messages.id, messageId));
+  }
+
+  async markConversationMessagesAsRead(conversationId: number, userId: number): Promise<void> {
+    const db = await this.database();
+    await db
+      .update(messages)
+      .set({ read: true })
+      .where(and(eq(messages.conversationId, conversationId), ne(messages.senderId, userId)));
+  }
+
+  async getMessage(messageId: number): Promise<Message | undefined> {
+    const db = await this.database();
+    const [message] = await db.select().from(messages).where(eq(messages.id, messageId));
+    return message;
+  }
+
+  async getMessagesByIds(messageIds: number[]): Promise<Message[]> {
+    if (messageIds.length === 0) return [];
+    const db = await this.database();
+    return db.select().from(messages).where(inArray(messages.id, messageIds)).orderBy(asc(messages.id));
+  }
+
+  async editMessage(messageId: number, content: string): Promise<Message | undefined> {
+    return this.transaction(async (tx) => {
+      // Transactions run one at a time, so concurrent edits each record the
+      // content they replaced
+      const [previous] = await tx.select().from(messages).where(eq(messages.id, messageId));
+      if (!previous) return undefined;
+
+      const editedAt = new Date();
+      await tx.insert(messageEdits).values({ messageId, content: previous.content, editedAt });
+      const [message] = await tx
+        .update(messages)
+        .set({ content, editedAt, hasCode: hasCodeBlock(content) })
+        .where(eq(messages.id, messageId))
+        .returning();
+      return message;
+    });
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    const db = await this.database();
+    return db
+      .select()
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(asc(messageEdits.id));
+  }
+
+  async hideMessage(messageId: number, userId: number): Promise<void> {
+    const db = await this.database();
+    await db.insert(hiddenMessages).values({ userId, messageId }).onConflictDoNothing();
+  }
+
+  async deleteMessage(messageId: number): Promise<Message | undefined> {
+    return this.transaction(async (tx) => {
+      await tx.delete(messageEdits).where(eq(messageEdits.messageId, messageId));
+      await tx.delete(messageReactions).where(eq(messageReactions.messageId, messageId));
+      await tx.delete(messageMentions).where(eq(messageMentions.messageId, messageId));
+      await tx.delete(pinnedMessages).where(eq(pinnedMessages.messageId, messageId));
+      await tx.delete(attachments).where(eq(attachments.messageId, messageId));
+      // Deleting again keeps the original deletion time
+      await tx
+        .update(messages)
+        .set({ content: "", hasCode: false, deletedAt: new Date() })
+        .where(and(eq(messages.id, messageId), isNull(messages.deletedAt)));
+      const [message] = await tx.select().from(messages).where(eq(messages.id, messageId));
+      return message;
+    });
+  }
+
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    const db = await this.database();
+    await db.insert(messageReactions).values({ messageId, userId, emoji }).onConflictDoNothing();
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    const db = await this.database();
+    await db
+      .delete(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, messageId),
+        eq(messageReactions.userId, userId),
+        eq(messageReactions.emoji, emoji),
+      ));
+  }
+
+  async getReactions(messageIds: number[]): Promise<MessageReaction[]> {
+    if (messageIds.length === 0) return [];
+    const db = await this.database();
+    return db
+      .select()
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageIds))
+      // Timestamps only have millisecond precision, so rowid breaks ties in insertion order
+      .orderBy(asc(messageReactions.createdAt), sql`rowid`);
+  }
+
+  async getReplies(messageId: number, viewerId?: number): Promise<Message[]> {
+    const db = await this.database();
+    return db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.replyToId, messageId),
+        viewerId !== undefined
+          ? notExists(
+              db
+                .select()
+                .from(hiddenMessages)
+                .where(and(eq(hiddenMessages.userId, viewerId), eq(hiddenMessages.messageId, messages.id))),
+            )
+          : undefined,
+      ))
+      .orderBy(asc(messages.id));
+  }
+
+  async getReplyCounts(messageIds: number[]): Promise<Map<number, number>> {
+    if (messageIds.length === 0) return new Map();
+    const db = await this.database();
+    const rows = await db
+      .select({ messageId: messages.replyToId, replies: count() })
+      .from(messages)
+      .where(inArray(messages.replyToId, messageIds))
+      .groupBy(messages.replyToId);
+    return new Map(rows.map((row) => [row.messageId!, row.replies]));
+  }
+
+  async getMentionedUserIds(messageId: number): Promise<number[]> {
+    const db = await this.database();
+    const rows = await db
+      .select({ userId: messageMentions.userId })
+      .from(messageMentions)
+      .where(eq(messageMentions.messageId, messageId));
+    return rows.map((row) => row.userId);
+  }
+
+  async getUnreadMentions(userId: number): Promise<Message[]> {
+    const db = await this.database();
+    return db
+      .select(getTableColumns(messages))
+      .from(messageMentions)
+      .innerJoin(messages, eq(messages.id, messageMentions.messageId))
+      // Only conversations the user still takes part in
+      .innerJoin(conversationParticipants, and(
+        eq(conversationParticipants.conversationId, messages.conversationId),
+        eq(conversationParticipants.userId, messageMentions.userId),
+      ))
+      .where(and(
+        eq(messageMentions.userId, userId),
+        isNull(messageMentions.readAt),
+        notExists(
+          db
+            .select()
+            .from(hiddenMessages)
+            .where(and(eq(hiddenMessages.userId, userId), eq(hiddenMessages.messageId, messages.id))),
+        ),
+      ))
+      .orderBy(desc(messages.id));
+  }
+
+  async markMentionsAsRead(conversationId: number, userId: number): Promise<void> {
+    const db = await this.database();
+    await db
+      .update(messageMentions)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(messageMentions.userId, userId),
+        isNull(messageMentions.readAt),
+        inArray(
+          messageMentions.messageId,
+          db.select({ id: messages.id }).from(messages).where(eq(messages.conversationId, conversationId)),
+        ),
+      ));
+  }
+
+  async pinMessage(conversationId: number, messageId: number, userId: number): Promise<PinnedMessage> {
+    const db = await this.database();
+    await db.insert(pinnedMessages).values({ conversationId, messageId, pinnedBy: userId }).onConflictDoNothing();
+    const [pin] = await db.select().from(pinnedMessages).where(eq(pinnedMessages.messageId, messageId));
+    return pin;
+  }
+
+  async unpinMessage(messageId: number): Promise<boolean> {
+    const db = await this.database();
+    const removed = await db
+      .delete(pinnedMessages)
+      .where(eq(pinnedMessages.messageId, messageId))
+      .returning({ messageId: pinnedMessages.messageId });
+    return removed.length > 0;
+  }
+
+  async getPinnedMessages(conversationId: number): Promise<PinnedMessage[]> {
+    const db = await this.database();
+    return db
+      .select()
+      .from(pinnedMessages)
+      .where(eq(pinnedMessages.conversationId, conversationId))
+      .orderBy(desc(pinnedMessages.id));
+  }
+
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const db = await this.database();
+    const [created] = await db.insert(attachments).values(attachment).returning();
+    return created;
+  }
+
+  async getAttachment(attachmentId: number): Promise<Attachment | undefined> {
+    const db = await this.database();
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, attachmentId));
+    return attachment;
+  }
+
+  async getAttachments(messageIds: number[]): Promise<Attachment[]> {
+    if (messageIds.length === 0) return [];
+    const db = await this.database();
+    return db
+      .select()
+      .from(attachments)
+      .where(inArray(attachments.messageId, messageIds))
+      .orderBy(asc(attachments.id));
+  }
+
+  async deletePendingAttachment(attachmentId: number): Promise<Attachment | undefined> {
+    const db = await this.database();
+    const [deleted] = await db
+      .delete(attachments)
+      .where(and(eq(attachments.id, attachmentId), isNull(attachments.messageId)))
+      .returning();
+    return deleted;
+  }
+
+  async deleteStalePendingAttachments(before: Date): Promise<Attachment[]> {
+    const db = await this.database();
+    return db
+      .delete(attachments)
+      .where(and(isNull(attachments.messageId), lt(attachments.createdAt, before)))
+      .returning();
+  }
+}
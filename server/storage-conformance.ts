@@ -0,0 +1,922 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type session from "express-session";
+import type { IStorage } from "./storage";
+
+// Behavior every IStorage backend must share. Run it from a test file with a
+// factory that returns a fresh, empty storage for each test.
+
+export type StorageFactory = () => Promise<IStorage>;
+
+function sessionGet(store: session.Store, sid: string) {
+  return new Promise<session.SessionData | null | undefined>((resolve, reject) =>
+    store.get(sid, (err, sess) => (err ? reject(err) : resolve(sess))),
+  );
+}
+
+function sessionSet(store: session.Store, sid: string, sess: session.SessionData) {
+  return new Promise<void>((resolve, reject) =>
+    store.set(sid, sess, (err) => (err ? reject(err) : resolve())),
+  );
+}
+
+function sessionDestroy(store: session.Store, sid: string) {
+  return new Promise<void>((resolve, reject) =>
+    store.destroy(sid, (err) => (err ? reject(err) : resolve())),
+  );
+}
+
+export function runStorageConformanceSuite(
+  name: string,
+  createStorage: StorageFactory,
+) {
+  describe(`IStorage conformance: ${name}`, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+    });
+
+    async function createUsers(...usernames: string[]) {
+      return Promise.all(
+        usernames.map((username) => storage.createUser({ username, password: "hashed" })),
+      );
+    }
+
+    async function createConversation(userAId: number, userBId: number) {
+      return (await storage.getOrCreateDirectConversation(userAId, userBId)).conversation;
+    }
+
+    describe("users", () => {
+      it("creates users with distinct ids, a null profile picture and no last seen time", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+
+        assert.notEqual(alice.id, bob.id);
+        assert.deepEqual(alice, {
+          id: alice.id,
+          username: "alice",
+          password: "hashed",
+          profilePicture: null,
+          lastSeenAt: null,
+        });
+      });
+
+      it("looks users up by id and username", async () => {
+        const [alice] = await createUsers("alice");
+
+        assert.deepEqual(await storage.getUser(alice.id), alice);
+        assert.deepEqual(await storage.getUserByUsername("alice"), alice);
+        assert.equal(await storage.getUser(alice.id + 1000), undefined);
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+      });
+
+      it("updates the password", async () => {
+        const [alice] = await createUsers("alice");
+
+        await storage.updateUserPassword(alice.id, "rehashed");
+
+        assert.equal((await storage.getUser(alice.id))?.password, "rehashed");
+      });
+
+      it("sets and clears the profile picture", async () => {
+        const [alice] = await createUsers("alice");
+
+        await storage.updateUserProfilePicture(alice.id, "https://example.com/a.png");
+        assert.equal((await storage.getUser(alice.id))?.profilePicture, "https://example.com/a.png");
+
+        await storage.updateUserProfilePicture(alice.id, null);
+        assert.equal((await storage.getUser(alice.id))?.profilePicture, null);
+      });
+
+      it("records when the user was last seen", async () => {
+        const [alice] = await createUsers("alice");
+        const lastSeenAt = new Date("2026-01-02T03:04:05.678Z");
+
+        await storage.updateUserLastSeen(alice.id, lastSeenAt);
+
+        assert.deepEqual((await storage.getUser(alice.id))?.lastSeenAt, lastSeenAt);
+      });
+
+      it("lists everyone who shares a conversation with the user once", async () => {
+        const [alice, bob, carol, dave] = await createUsers("alice", "bob", "carol", "dave");
+        await createConversation(alice.id, bob.id);
+        await storage.createGroupConversation(alice.id, { name: "Team" }, [bob.id, carol.id]);
+        await createConversation(carol.id, dave.id);
+
+        assert.deepEqual((await storage.getContactIds(alice.id)).sort((a, b) => a - b), [bob.id, carol.id]);
+        assert.deepEqual(await storage.getContactIds(dave.id), [carol.id]);
+      });
+    });
+
+    describe("conversations", () => {
+      it("returns conversations where the user is either participant", async () => {
+        const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+        const aliceBob = await createConversation(alice.id, bob.id);
+        const carolAlice = await createConversation(carol.id, alice.id);
+        const bobCarol = await createConversation(bob.id, carol.id);
+
+        assert.deepEqual(aliceBob, {
+          id: aliceBob.id,
+          user1Id: alice.id,
+          user2Id: bob.id,
+          isGroup: false,
+          name: null,
+          avatar: null,
+          createdBy: null,
+        });
+        assert.deepEqual(
+          (await storage.getConversations(alice.id)).map((c) => c.id).sort(),
+          [aliceBob.id, carolAlice.id].sort(),
+        );
+        assert.deepEqual(
+          (await storage.getConversations(carol.id)).map((c) => c.id).sort(),
+          [carolAlice.id, bobCarol.id].sort(),
+        );
+      });
+
+      it("stores the pair normalised whatever the argument order", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+
+        const conversation = await createConversation(bob.id, alice.id);
+
+        assert.equal(conversation.user1Id, alice.id);
+        assert.equal(conversation.user2Id, bob.id);
+      });
+
+      it("reuses the existing conversation for the same pair", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+
+        const first = await storage.getOrCreateDirectConversation(alice.id, bob.id);
+        const again = await storage.getOrCreateDirectConversation(bob.id, alice.id);
+
+        assert.equal(first.created, true);
+        assert.equal(again.created, false);
+        assert.deepEqual(again.conversation, first.conversation);
+        assert.equal((await storage.getConversations(alice.id)).length, 1);
+      });
+
+      it("creates exactly one conversation when both users start one at once", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+
+        const results = await Promise.all([
+          storage.getOrCreateDirectConversation(alice.id, bob.id),
+          storage.getOrCreateDirectConversation(bob.id, alice.id),
+          storage.getOrCreateDirectConversation(alice.id, bob.id),
+        ]);
+
+        assert.equal(new Set(results.map((r) => r.conversation.id)).size, 1);
+        assert.equal(results.filter((r) => r.created).length, 1);
+        assert.equal((await storage.getConversations(bob.id)).length, 1);
+      });
+
+      it("returns an empty list for a user without conversations", async () => {
+        const [alice] = await createUsers("alice");
+
+        assert.deepEqual(await storage.getConversations(alice.id), []);
+      });
+
+      it("makes both users of a direct conversation its participants", async () => {
+        const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+        const conversation = await createConversation(bob.id, alice.id);
+
+        assert.deepEqual(
+          (await storage.getConversationParticipants(conversation.id)).map((u) => u.id).sort(),
+          [alice.id, bob.id].sort(),
+        );
+        assert.equal(await storage.isConversationParticipant(conversation.id, alice.id), true);
+        assert.equal(await storage.isConversationParticipant(conversation.id, carol.id), false);
+      });
+
+      it("looks conversations up by id", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+        const conversation = await createConversation(alice.id, bob.id);
+
+        assert.deepEqual(await storage.getConversation(conversation.id), conversation);
+        assert.equal(await storage.getConversation(conversation.id + 1000), undefined);
+      });
+    });
+
+    describe("group conversations", () => {
+      it("creates a named group without a user pair", async () => {
+        const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+
+        const group = await storage.createGroupConversation(
+          alice.id,
+          { name: "Team", avatar: "https://example.com/team.png" },
+          [bob.id, carol.id],
+        );
+
+        assert.deepEqual(group, {
+          id: group.id,
+          user1Id: null,
+          user2Id: null,
+          isGroup: true,
+          name: "Team",
+          avatar: "https://example.com/team.png",
+          createdBy: alice.id,
+        });
+        assert.deepEqual(await storage.getConversation(group.id), group);
+      });
+
+      it("adds the creator and members once each, creator first", async () => {
+        const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+
+        const group = await storage.createGroupConversation(alice.id, { name: "Team" }, [bob.id, alice.id, bob.id]);
+        await storage.addConversationParticipant(group.id, carol.id);
+
+        const participants = await storage.getConversationParticipants(group.id);
+        assert.equal(group.avatar, null);
+        assert.equal(participants[0].id, alice.id);
+        assert.deepEqual(participants.slice(1, 2).map((u) => u.id), [bob.id]);
+        assert.deepEqual(participants.map((u) => u.id).sort(), [alice.id, bob.id, carol.id].sort());
+      });
+
+      it("lists groups alongside direct conversations for each member", async () => {
+        const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+        const aliceBob = await createConversation(alice.id, bob.id);
+        const group = await storage.createGroupConversation(alice.id, { name: "Team" }, [carol.id]);
+
+        assert.deepEqual((await storage.getConversations(alice.id)).map((c) => c.id), [aliceBob.id, group.id]);
+        assert.deepEqual((await storage.getConversations(bob.id)).map((c) => c.id), [aliceBob.id]);
+        assert.deepEqual((await storage.getConversations(carol.id)).map((c) => c.id), [group.id]);
+      });
+
+      it("adds and removes members", async () => {
+        const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+        const group = await storage.createGroupConversation(alice.id, { name: "Team" }, [bob.id]);
+
+        await storage.addConversationParticipant(group.id, carol.id);
+        await storage.addConversationParticipant(group.id, carol.id);
+        assert.equal(await storage.isConversationParticipant(group.id, carol.id), true);
+        assert.equal((await storage.getConversationParticipants(group.id)).length, 3);
+
+        await storage.removeConversationParticipant(group.id, bob.id);
+        assert.equal(await storage.isConversationParticipant(group.id, bob.id), false);
+        assert.deepEqual(await storage.getConversations(bob.id), []);
+        assert.deepEqual(
+          (await storage.getConversationParticipants(group.id)).map((u) => u.id).sort(),
+          [alice.id, carol.id].sort(),
+        );
+      });
+    });
+
+    describe("messages", () => {
+      it("creates unread messages without a reply by default", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+        const conversation = await createConversation(alice.id, bob.id);
+
+        const message = await storage.createMessage(conversation.id, alice.id, "hello");
+
+        assert.equal(message.conversationId, conversation.id);
+        assert.equal(message.senderId, alice.id);
+        assert.equal(message.content, "hello");
+        assert.equal(message.read, false);
+        assert.equal(message.replyToId, null);
+        assert.equal(message.editedAt, null);
+        assert.equal(message.deletedAt, null);
+        assert.equal(message.threadOnly, false);
+        assert.equal(message.hasCode, false);
+        assert.equal(message.kind, "text");
+        assert.ok(message.timestamp instanceof Date);
+        assert.deepEqual(await storage.getMessage(message.id), message);
+      });
+
+      it("stores the message being replied to", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+        const conversation = await createConversation(alice.id, bob.id);
+        const original = await storage.createMessage(conversation.id, alice.id, "question?");
+
+        const reply = await storage.createMessage(conversation.id, bob.id, "answer", original.id);
+
+        assert.equal(reply.replyToId, original.id);
+      });
+
+      it("returns undefined for an unknown message", async () => {
+        assert.equal(await storage.getMessage(1000), undefined);
+      });
+
+      it("looks messages up by id, oldest first", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+        const conversation = await createConversation(alice.id, bob.id);
+        const first = await storage.createMessage(conversation.id, alice.id, "one");
+        await storage.createMessage(conversation.id, bob.id, "two");
+        const third = await storage.createMessage(conversation.id, alice.id, "three");
+
+        const found = await storage.getMessagesByIds([third.id, first.id, third.id + 1000]);
+
+        assert.deepEqual(found, [first, third]);
+        assert.deepEqual(await storage.getMessagesByIds([]), []);
+      });
+
+      it("lists only the conversation's messages, oldest first", async () => {
+        const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+        const aliceBob = await createConversation(alice.id, bob.id);
+        const aliceCarol = await createConversation(alice.id, carol.id);
+
+        const first = await storage.createMessage(aliceBob.id, alice.id, "one");
+        await storage.createMessage(aliceCarol.id, carol.id, "elsewhere");
+        const second = await storage.createMessage(aliceBob.id, bob.id, "two");
+        const third = await storage.createMessage(aliceBob.id, alice.id, "three");
+
+        const listed = await storage.getMessages(aliceBob.id);
+
+        assert.deepEqual(listed.map((m) => m.id), [first.id, second.id, third.id]);
+        assert.deepEqual(await storage.getMessages(aliceBob.id + aliceCarol.id + 1000), []);
+      });
+
+      describe("pagination", () => {
+        async function createConversationWithMessages(count: number) {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const ids: number[] = [];
+          for (let i = 0; i < count; i++) {
+            const sender = i % 2 === 0 ? alice : bob;
+            ids.push((await storage.createMessage(conversation.id, sender.id, `message ${i}`)).id);
+          }
+          return { conversation, ids };
+        }
+
+        it("returns the newest messages, oldest first, when no cursor is given", async () => {
+          const { conversation, ids } = await createConversationWithMessages(5);
+
+          const page = await storage.getMessages(conversation.id, { limit: 3 });
+
+          assert.deepEqual(page.map((m) => m.id), ids.slice(2));
+        });
+
+        it("returns the newest messages older than the before cursor", async () => {
+          const { conversation, ids } = await createConversationWithMessages(5);
+
+          const page = await storage.getMessages(conversation.id, { before: ids[3], limit: 2 });
+
+          assert.deepEqual(page.map((m) => m.id), [ids[1], ids[2]]);
+        });
+
+        it("returns the oldest messages newer than the after cursor", async () => {
+          const { conversation, ids } = await createConversationWithMessages(5);
+
+          const page = await storage.getMessages(conversation.id, { after: ids[0], limit: 2 });
+
+          assert.deepEqual(page.map((m) => m.id), [ids[1], ids[2]]);
+        });
+
+        it("returns every remaining message when no limit is given", async () => {
+          const { conversation, ids } = await createConversationWithMessages(4);
+
+          assert.deepEqual(
+            (await storage.getMessages(conversation.id, { after: ids[1] })).map((m) => m.id),
+            ids.slice(2),
+          );
+          assert.deepEqual(
+            (await storage.getMessages(conversation.id, { before: ids[2] })).map((m) => m.id),
+            ids.slice(0, 2),
+          );
+        });
+
+        it("returns an empty page past either end", async () => {
+          const { conversation, ids } = await createConversationWithMessages(3);
+
+          assert.deepEqual(await storage.getMessages(conversation.id, { before: ids[0], limit: 2 }), []);
+          assert.deepEqual(await storage.getMessages(conversation.id, { after: ids[2], limit: 2 }), []);
+        });
+      });
+
+      it("edits a message and keeps each previous version", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+        const conversation = await createConversation(alice.id, bob.id);
+        const message = await storage.createMessage(conversation.id, alice.id, "helo");
+
+        const first = await storage.editMessage(message.id, "hello");
+        const second = await storage.editMessage(message.id, "hello!");
+
+        assert.equal(first?.content, "hello");
+        assert.ok(first?.editedAt instanceof Date);
+        assert.equal(second?.content, "hello!");
+        assert.equal(second?.timestamp.getTime(), message.timestamp.getTime());
+        assert.deepEqual(await storage.getMessage(message.id), second);
+
+        const edits = await storage.getMessageEdits(message.id);
+        assert.deepEqual(edits.map((e) => e.content), ["helo", "hello"]);
+        assert.ok(edits.every((e) => e.messageId === message.id && e.editedAt instanceof Date));
+        assert.equal(edits[1].editedAt.getTime(), second?.editedAt?.getTime());
+      });
+
+      it("records every replaced version when edits race", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+        const conversation = await createConversation(alice.id, bob.id);
+        const message = await storage.createMessage(conversation.id, alice.id, "v0");
+
+        await Promise.all([1, 2, 3, 4].map((n) => storage.editMessage(message.id, `v${n}`)));
+
+        const replaced = (await storage.getMessageEdits(message.id)).map((e) => e.content);
+        const current = (await storage.getMessage(message.id))?.content;
+        assert.deepEqual([...replaced, current].sort(), ["v0", "v1", "v2", "v3", "v4"]);
+      });
+
+      it("tags messages with a fenced code block and keeps the tag current", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+        const conversation = await createConversation(alice.id, bob.id);
+        const inline = await storage.createMessage(conversation.id, alice.id, "run `npm test`");
+        const snippet = await storage.createMessage(conversation.id, alice.id, "try:\n```ts\nconst a = 1;\n```");
+
+        assert.equal(inline.hasCode, false);
+        assert.equal(snippet.hasCode, true);
+        assert.equal((await storage.editMessage(inline.id, "```\nnpm test\n```"))?.hasCode, true);
+        assert.equal((await storage.editMessage(snippet.id, "never mind"))?.hasCode, false);
+        assert.equal((await storage.deleteMessage(inline.id))?.hasCode, false);
+      });
+
+      it("returns undefined when editing an unknown message", async () => {
+        assert.equal(await storage.editMessage(1000, "hello"), undefined);
+        assert.deepEqual(await storage.getMessageEdits(1000), []);
+      });
+
+      describe("deletion", () => {
+        it("hides a message only for the user who deleted it for themselves", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const first = await storage.createMessage(conversation.id, alice.id, "one");
+          const second = await storage.createMessage(conversation.id, bob.id, "two");
+          const third = await storage.createMessage(conversation.id, alice.id, "three");
+
+          await storage.hideMessage(second.id, alice.id);
+          await storage.hideMessage(second.id, alice.id);
+
+          assert.deepEqual(
+            (await storage.getMessages(conversation.id, { viewerId: alice.id })).map((m) => m.id),
+            [first.id, third.id],
+          );
+          assert.deepEqual(
+            (await storage.getMessages(conversation.id, { viewerId: bob.id })).map((m) => m.id),
+            [first.id, second.id, third.id],
+          );
+          assert.equal((await storage.getMessages(conversation.id)).length, 3);
+        });
+
+        it("fills pages past hidden messages", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const ids: number[] = [];
+          for (let i = 0; i < 6; i++) {
+            ids.push((await storage.createMessage(conversation.id, alice.id, `message ${i}`)).id);
+          }
+          await storage.hideMessage(ids[4], bob.id);
+          await storage.hideMessage(ids[1], bob.id);
+
+          const latest = await storage.getMessages(conversation.id, { limit: 2, viewerId: bob.id });
+          const older = await storage.getMessages(conversation.id, { before: ids[3], limit: 2, viewerId: bob.id });
+          const newer = await storage.getMessages(conversation.id, { after: ids[0], limit: 2, viewerId: bob.id });
+
+          assert.deepEqual(latest.map((m) => m.id), [ids[3], ids[5]]);
+          assert.deepEqual(older.map((m) => m.id), [ids[0], ids[2]]);
+          assert.deepEqual(newer.map((m) => m.id), [ids[2], ids[3]]);
+        });
+
+        it("keeps a tombstone without content or history when deleted for everyone", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const original = await storage.createMessage(conversation.id, alice.id, "secret");
+          await storage.editMessage(original.id, "still secret");
+          const reply = await storage.createMessage(conversation.id, bob.id, "what?", original.id);
+
+          const tombstone = await storage.deleteMessage(original.id);
+
+          assert.equal(tombstone?.id, original.id);
+          assert.equal(tombstone?.content, "");
+          assert.ok(tombstone?.deletedAt instanceof Date);
+          assert.deepEqual(await storage.getMessage(original.id), tombstone);
+          assert.deepEqual(await storage.getMessageEdits(original.id), []);
+          assert.deepEqual((await storage.getMessages(conversation.id)).map((m) => m.id), [original.id, reply.id]);
+          assert.equal((await storage.getMessage(reply.id))?.replyToId, original.id);
+        });
+
+        it("keeps the first deletion time when deleted again", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const message = await storage.createMessage(conversation.id, alice.id, "hello");
+
+          const first = await storage.deleteMessage(message.id);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          const again = await storage.deleteMessage(message.id);
+
+          assert.equal(again?.deletedAt?.getTime(), first?.deletedAt?.getTime());
+          assert.equal(await storage.deleteMessage(1000), undefined);
+        });
+      });
+
+      describe("reactions", () => {
+        it("adds each user's reaction once per emoji, oldest first", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const message = await storage.createMessage(conversation.id, alice.id, "lunch?");
+
+          await storage.addReaction(message.id, bob.id, "👍");
+          await storage.addReaction(message.id, alice.id, "👍");
+          await storage.addReaction(message.id, bob.id, "👍");
+          await storage.addReaction(message.id, bob.id, "🍕");
+
+          const reactions = await storage.getReactions([message.id]);
+          assert.deepEqual(
+            reactions.map((r) => [r.messageId, r.userId, r.emoji]),
+            [[message.id, bob.id, "👍"], [message.id, alice.id, "👍"], [message.id, bob.id, "🍕"]],
+          );
+          assert.ok(reactions.every((r) => r.createdAt instanceof Date));
+        });
+
+        it("removes only the given user's emoji", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const message = await storage.createMessage(conversation.id, alice.id, "lunch?");
+          await storage.addReaction(message.id, alice.id, "👍");
+          await storage.addReaction(message.id, bob.id, "👍");
+          await storage.addReaction(message.id, bob.id, "🍕");
+
+          await storage.removeReaction(message.id, bob.id, "👍");
+          await storage.removeReaction(message.id, bob.id, "🎉");
+
+          assert.deepEqual(
+            (await storage.getReactions([message.id])).map((r) => [r.userId, r.emoji]),
+            [[alice.id, "👍"], [bob.id, "🍕"]],
+          );
+        });
+
+        it("returns reactions for the requested messages only", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const first = await storage.createMessage(conversation.id, alice.id, "one");
+          const second = await storage.createMessage(conversation.id, alice.id, "two");
+          const third = await storage.createMessage(conversation.id, alice.id, "three");
+          await storage.addReaction(first.id, bob.id, "👍");
+          await storage.addReaction(second.id, bob.id, "❤️");
+          await storage.addReaction(third.id, bob.id, "🎉");
+
+          assert.deepEqual(
+            (await storage.getReactions([first.id, third.id])).map((r) => r.emoji),
+            ["👍", "🎉"],
+          );
+          assert.deepEqual(await storage.getReactions([]), []);
+        });
+
+        it("clears reactions when a message is deleted for everyone", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const message = await storage.createMessage(conversation.id, alice.id, "oops");
+          await storage.addReaction(message.id, bob.id, "😂");
+
+          await storage.deleteMessage(message.id);
+
+          assert.deepEqual(await storage.getReactions([message.id]), []);
+        });
+      });
+
+      describe("threads", () => {
+        it("keeps thread-only replies out of the conversation list", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const root = await storage.createMessage(conversation.id, alice.id, "plan?");
+          const inline = await storage.createMessage(conversation.id, bob.id, "yes", root.id);
+          const threaded = await storage.createMessage(conversation.id, alice.id, "details", root.id, { threadOnly: true });
+          const after = await storage.createMessage(conversation.id, bob.id, "next topic");
+
+          assert.equal(threaded.threadOnly, true);
+          assert.deepEqual(
+            (await storage.getMessages(conversation.id)).map((m) => m.id),
+            [root.id, inline.id, after.id],
+          );
+          assert.deepEqual(
+            (await storage.getMessages(conversation.id, { after: root.id, limit: 2 })).map((m) => m.id),
+            [inline.id, after.id],
+          );
+        });
+
+        it("lists every reply to a message, oldest first", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const root = await storage.createMessage(conversation.id, alice.id, "plan?");
+          const other = await storage.createMessage(conversation.id, alice.id, "unrelated");
+          const first = await storage.createMessage(conversation.id, bob.id, "yes", root.id);
+          await storage.createMessage(conversation.id, bob.id, "sure", other.id);
+          const second = await storage.createMessage(conversation.id, alice.id, "details", root.id, { threadOnly: true });
+          const nested = await storage.createMessage(conversation.id, bob.id, "ok", first.id);
+
+          assert.deepEqual((await storage.getReplies(root.id)).map((m) => m.id), [first.id, second.id]);
+          assert.deepEqual((await storage.getReplies(first.id)).map((m) => m.id), [nested.id]);
+          assert.deepEqual(await storage.getReplies(nested.id), []);
+        });
+
+        it("leaves replies the viewer hid out of the thread", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const root = await storage.createMessage(conversation.id, alice.id, "plan?");
+          const first = await storage.createMessage(conversation.id, bob.id, "yes", root.id, { threadOnly: true });
+          const second = await storage.createMessage(conversation.id, bob.id, "no", root.id, { threadOnly: true });
+
+          await storage.hideMessage(first.id, alice.id);
+
+          assert.deepEqual((await storage.getReplies(root.id, alice.id)).map((m) => m.id), [second.id]);
+          assert.deepEqual((await storage.getReplies(root.id, bob.id)).map((m) => m.id), [first.id, second.id]);
+        });
+
+        it("counts replies per message", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const root = await storage.createMessage(conversation.id, alice.id, "plan?");
+          const quiet = await storage.createMessage(conversation.id, alice.id, "anyone?");
+          const other = await storage.createMessage(conversation.id, alice.id, "lunch?");
+          await storage.createMessage(conversation.id, bob.id, "yes", root.id);
+          await storage.createMessage(conversation.id, bob.id, "details", root.id, { threadOnly: true });
+          await storage.createMessage(conversation.id, bob.id, "sure", other.id);
+
+          const counts = await storage.getReplyCounts([root.id, quiet.id]);
+
+          assert.deepEqual(Array.from(counts.entries()), [[root.id, 2]]);
+          assert.equal((await storage.getReplyCounts([])).size, 0);
+        });
+      });
+
+      describe("mentions", () => {
+        it("records each mentioned participant once, ignoring the sender and outsiders", async () => {
+          const [alice, bob, carol, dave] = await createUsers("alice", "bob", "carol", "dave");
+          const group = await storage.createGroupConversation(alice.id, { name: "Team" }, [bob.id, carol.id]);
+
+          const message = await storage.createMessage(
+            group.id,
+            alice.id,
+            "@bob and @carol, thanks @bob. cc @alice @dave @nobody, mail bob@example.com",
+          );
+
+          assert.deepEqual((await storage.getMentionedUserIds(message.id)).sort(), [bob.id, carol.id].sort());
+          const plain = await storage.createMessage(group.id, bob.id, "no mentions here");
+          assert.deepEqual(await storage.getMentionedUserIds(plain.id), []);
+        });
+
+        it("lists unread mentions across conversations, newest first", async () => {
+          const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+          const aliceBob = await createConversation(alice.id, bob.id);
+          const group = await storage.createGroupConversation(carol.id, { name: "Team" }, [alice.id, bob.id]);
+          const first = await storage.createMessage(aliceBob.id, bob.id, "hey @alice");
+          await storage.createMessage(aliceBob.id, bob.id, "unrelated");
+          const second = await storage.createMessage(group.id, carol.id, "@alice can you look?");
+          const threaded = await storage.createMessage(group.id, bob.id, "@alice too", second.id, { threadOnly: true });
+
+          assert.deepEqual(
+            (await storage.getUnreadMentions(alice.id)).map((m) => m.id),
+            [threaded.id, second.id, first.id],
+          );
+          assert.deepEqual(await storage.getUnreadMentions(bob.id), []);
+        });
+
+        it("marks mentions as read one conversation at a time", async () => {
+          const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+          const aliceBob = await createConversation(alice.id, bob.id);
+          const aliceCarol = await createConversation(alice.id, carol.id);
+          await storage.createMessage(aliceBob.id, bob.id, "hey @alice");
+          const other = await storage.createMessage(aliceCarol.id, carol.id, "hi @alice");
+
+          await storage.markMentionsAsRead(aliceBob.id, alice.id);
+
+          assert.deepEqual((await storage.getUnreadMentions(alice.id)).map((m) => m.id), [other.id]);
+        });
+
+        it("leaves out hidden and deleted messages and conversations the user left", async () => {
+          const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+          const aliceBob = await createConversation(alice.id, bob.id);
+          const group = await storage.createGroupConversation(carol.id, { name: "Team" }, [alice.id]);
+          const hidden = await storage.createMessage(aliceBob.id, bob.id, "@alice one");
+          const deleted = await storage.createMessage(aliceBob.id, bob.id, "@alice two");
+          const kept = await storage.createMessage(aliceBob.id, bob.id, "@alice three");
+          await storage.createMessage(group.id, carol.id, "@alice four");
+
+          await storage.hideMessage(hidden.id, alice.id);
+          await storage.deleteMessage(deleted.id);
+          await storage.removeConversationParticipant(group.id, alice.id);
+
+          assert.deepEqual((await storage.getUnreadMentions(alice.id)).map((m) => m.id), [kept.id]);
+          assert.deepEqual(await storage.getMentionedUserIds(deleted.id), []);
+        });
+      });
+
+      describe("attachments", () => {
+        const upload = (conversationId: number, uploaderId: number, filename: string) =>
+          storage.createAttachment({
+            conversationId,
+            uploaderId,
+            filename,
+            mimeType: "image/png",
+            size: 42,
+            storageKey: `key-${filename}`,
+          });
+
+        it("records uploads without a message", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+
+          const attachment = await upload(conversation.id, alice.id, "cat.png");
+
+          assert.equal(attachment.messageId, null);
+          assert.equal(attachment.storageKey, "key-cat.png");
+          assert.equal(attachment.width, null);
+          assert.equal(attachment.blurhash, null);
+          assert.ok(attachment.createdAt instanceof Date);
+          assert.deepEqual(await storage.getAttachment(attachment.id), attachment);
+          assert.equal(await storage.getAttachment(1000), undefined);
+        });
+
+        it("stores image dimensions and the placeholder", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+
+          const attachment = await storage.createAttachment({
+            conversationId: conversation.id,
+            uploaderId: alice.id,
+            filename: "cat.png",
+            mimeType: "image/png",
+            size: 42,
+            storageKey: "key",
+            width: 640,
+            height: 480,
+            blurhash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj",
+          });
+
+          const stored = await storage.getAttachment(attachment.id);
+          assert.deepEqual([stored?.width, stored?.height, stored?.blurhash], [640, 480, "LEHV6nWB2yk8pyo0adR*.7kCMdnj"]);
+        });
+
+        it("stores the duration and waveform of recordings", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+
+          const recording = await storage.createAttachment({
+            conversationId: conversation.id,
+            uploaderId: alice.id,
+            filename: "voice.webm",
+            mimeType: "audio/webm",
+            size: 42,
+            storageKey: "key",
+            durationMs: 3500,
+            waveform: [0, 40, 100, 12],
+          });
+          const message = await storage.createMessage(conversation.id, alice.id, "", undefined, {
+            attachmentIds: [recording.id],
+            kind: "audio",
+          });
+
+          assert.equal(message.kind, "audio");
+          const [stored] = await storage.getAttachments([message.id]);
+          assert.equal(stored.durationMs, 3500);
+          assert.deepEqual(stored.waveform, [0, 40, 100, 12]);
+        });
+
+        it("links uploads to the message they are sent with, once", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const first = await upload(conversation.id, alice.id, "a.png");
+          const second = await upload(conversation.id, alice.id, "b.png");
+
+          const message = await storage.createMessage(conversation.id, alice.id, "", undefined, {
+            attachmentIds: [second.id, first.id],
+          });
+          const again = await storage.createMessage(conversation.id, alice.id, "again", undefined, {
+            attachmentIds: [first.id],
+          });
+
+          assert.deepEqual((await storage.getAttachments([message.id])).map((a) => a.id), [first.id, second.id]);
+          assert.equal((await storage.getAttachment(first.id))?.messageId, message.id);
+          assert.deepEqual(await storage.getAttachments([again.id]), []);
+          assert.deepEqual(await storage.getAttachments([]), []);
+        });
+
+        it("removes attachment records when a message is deleted for everyone", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const attachment = await upload(conversation.id, alice.id, "a.png");
+          const message = await storage.createMessage(conversation.id, alice.id, "", undefined, {
+            attachmentIds: [attachment.id],
+          });
+
+          await storage.deleteMessage(message.id);
+
+          assert.deepEqual(await storage.getAttachments([message.id]), []);
+          assert.equal(await storage.getAttachment(attachment.id), undefined);
+        });
+
+        it("deletes pending uploads but not sent ones", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const pending = await upload(conversation.id, alice.id, "a.png");
+          const sent = await upload(conversation.id, alice.id, "b.png");
+          await storage.createMessage(conversation.id, alice.id, "", undefined, { attachmentIds: [sent.id] });
+
+          assert.equal((await storage.deletePendingAttachment(pending.id))?.storageKey, "key-a.png");
+          assert.equal(await storage.getAttachment(pending.id), undefined);
+          assert.equal(await storage.deletePendingAttachment(pending.id), undefined);
+          assert.equal(await storage.deletePendingAttachment(sent.id), undefined);
+          assert.ok(await storage.getAttachment(sent.id));
+        });
+
+        it("deletes pending uploads made before a cutoff", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const pending = await upload(conversation.id, alice.id, "a.png");
+          const sent = await upload(conversation.id, alice.id, "b.png");
+          await storage.createMessage(conversation.id, alice.id, "", undefined, { attachmentIds: [sent.id] });
+
+          assert.deepEqual(await storage.deleteStalePendingAttachments(new Date(Date.now() - 60_000)), []);
+          const stale = await storage.deleteStalePendingAttachments(new Date(Date.now() + 60_000));
+          assert.deepEqual(stale.map((attachment) => attachment.id), [pending.id]);
+          assert.equal(await storage.getAttachment(pending.id), undefined);
+          assert.ok(await storage.getAttachment(sent.id));
+        });
+      });
+
+      describe("pins", () => {
+        it("lists a conversation's pins newest first, keeping the first pin of a message", async () => {
+          const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+          const conversation = await createConversation(alice.id, bob.id);
+          const other = await createConversation(alice.id, carol.id);
+          const first = await storage.createMessage(conversation.id, alice.id, "agenda");
+          const second = await storage.createMessage(conversation.id, bob.id, "address");
+          const elsewhere = await storage.createMessage(other.id, carol.id, "hi");
+
+          const pin = await storage.pinMessage(conversation.id, first.id, bob.id);
+          await storage.pinMessage(conversation.id, second.id, alice.id);
+          await storage.pinMessage(other.id, elsewhere.id, carol.id);
+          const again = await storage.pinMessage(conversation.id, first.id, alice.id);
+
+          assert.deepEqual(again, pin);
+          assert.equal(pin.pinnedBy, bob.id);
+          assert.ok(pin.pinnedAt instanceof Date);
+          assert.deepEqual(
+            (await storage.getPinnedMessages(conversation.id)).map((p) => [p.messageId, p.pinnedBy]),
+            [[second.id, alice.id], [first.id, bob.id]],
+          );
+        });
+
+        it("unpins a message", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const message = await storage.createMessage(conversation.id, alice.id, "agenda");
+          await storage.pinMessage(conversation.id, message.id, alice.id);
+
+          assert.equal(await storage.unpinMessage(message.id), true);
+          assert.equal(await storage.unpinMessage(message.id), false);
+          assert.deepEqual(await storage.getPinnedMessages(conversation.id), []);
+        });
+
+        it("unpins a message when it is deleted for everyone", async () => {
+          const [alice, bob] = await createUsers("alice", "bob");
+          const conversation = await createConversation(alice.id, bob.id);
+          const message = await storage.createMessage(conversation.id, alice.id, "agenda");
+          await storage.pinMessage(conversation.id, message.id, bob.id);
+
+          await storage.deleteMessage(message.id);
+
+          assert.deepEqual(await storage.getPinnedMessages(conversation.id), []);
+        });
+      });
+
+      it("updates the read status of a single message", async () => {
+        const [alice, bob] = await createUsers("alice", "bob");
+        const conversation = await createConversation(alice.id, bob.id);
+        const message = await storage.createMessage(conversation.id, alice.id, "hello");
+
+        await storage.updateMessageReadStatus(message.id, true);
+        assert.equal((await storage.getMessage(message.id))?.read, true);
+
+        await storage.updateMessageReadStatus(message.id, false);
+        assert.equal((await storage.getMessage(message.id))?.read, false);
+      });
+
+      it("marks only messages from other participants as read", async () => {
+        const [alice, bob, carol] = await createUsers("alice", "bob", "carol");
+        const aliceBob = await createConversation(alice.id, bob.id);
+        const aliceCarol = await createConversation(alice.id, carol.id);
+        const fromAlice = await storage.createMessage(aliceBob.id, alice.id, "hi bob");
+        const fromBob = await storage.createMessage(aliceBob.id, bob.id, "hi alice");
+        const fromCarol = await storage.createMessage(aliceCarol.id, carol.id, "hi alice");
+
+        await storage.markConversationMessagesAsRead(aliceBob.id, alice.id);
+
+        assert.equal((await storage.getMessage(fromAlice.id))?.read, false);
+        assert.equal((await storage.getMessage(fromBob.id))?.read, true);
+        assert.equal((await storage.getMessage(fromCarol.id))?.read, false);
+      });
+    });
+
+    describe("sessions", () => {
+      it("stores, loads and destroys sessions", async () => {
+        const sess = {
+          cookie: { originalMaxAge: 60_000, expires: new Date(Date.now() + 60_000) },
+          passport: { user: 1 },
+        } as unknown as session.SessionData;
+
+        await sessionSet(storage.sessionStore, "sid-1", sess);
+        const loaded = await sessionGet(storage.sessionStore, "sid-1");
+        assert.deepEqual((loaded as any)?.passport, { user: 1 });
+
+        await sessionDestroy(storage.sessionStore, "sid-1");
+        assert.ok(!(await sessionGet(storage.sessionStore, "sid-1")));
+      });
+    });
+  });
+}
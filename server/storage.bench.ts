@@ -0,0 +1,89 @@
+import { performance } from "perf_hooks";
+import { MemStorage } from "./storage";
+
+// Times MemStorage operations for a single user while the total amount of
+// stored data grows. With the secondary indexes the per-operation cost should
+// stay roughly flat from 1k to 100k messages.
+//
+// Usage: npm run bench:storage
+
+const MESSAGES_PER_CONVERSATION = 100;
+const ITERATIONS = 200;
+
+async function populate(totalMessages: number) {
+  const storage = new MemStorage();
+  const conversationCount = totalMessages / MESSAGES_PER_CONVERSATION;
+  const userIds: number[] = [];
+
+  for (let i = 0; i < conversationCount + 1; i++) {
+    userIds.push((await storage.createUser({ username: `user${i}`, password: "x" })).id);
+  }
+
+  // Chain users together so each one takes part in at most two conversations
+  const conversationIds: number[] = [];
+  for (let i = 0; i < conversationCount; i++) {
+    const { conversation } = await storage.getOrCreateDirectConversation(userIds[i], userIds[i + 1]);
+    conversationIds.push(conversation.id);
+  }
+
+  for (let m = 0; m < MESSAGES_PER_CONVERSATION; m++) {
+    for (let i = 0; i < conversationCount; i++) {
+      const sender = m % 2 === 0 ? userIds[i] : userIds[i + 1];
+      await storage.createMessage(conversationIds[i], sender, `message ${m}`);
+    }
+  }
+
+  return { storage, userIds, conversationIds };
+}
+
+async function median(fn: () => Promise<unknown>): Promise<number> {
+  const samples: number[] = [];
+  for (let i = 0; i < ITERATIONS; i++) {
+    const start = performance.now();
+    await fn();
+    samples.push(performance.now() - start);
+  }
+  samples.sort((a, b) => a - b);
+  return samples[Math.floor(samples.length / 2)] * 1000;
+}
+
+async function run(totalMessages: number) {
+  const { storage, userIds, conversationIds } = await populate(totalMessages);
+  const middle = Math.floor(conversationIds.length / 2);
+  const userId = userIds[middle];
+  const conversationId = conversationIds[middle];
+  const latest = await storage.getMessages(conversationId, { limit: 50 });
+
+  const results: Record<string, number> = {
+    getUserByUsername: await median(() => storage.getUserByUsername(`user${middle}`)),
+    getConversations: await median(() => storage.getConversations(userId)),
+    "getMessages (latest 50)": await median(() => storage.getMessages(conversationId, { limit: 50 })),
+    "getMessages (before cursor)": await median(() =>
+      storage.getMessages(conversationId, { before: latest[0].id, limit: 50 }),
+    ),
+    markConversationMessagesAsRead: await median(async () => {
+      await storage.createMessage(conversationId, userIds[middle + 1], "new");
+      await storage.markConversationMessagesAsRead(conversationId, userId);
+    }),
+  };
+
+  return results;
+}
+
+(async () => {
+  const sizes = [1_000, 100_000];
+  const runs: Record<string, number>[] = [];
+  for (const size of sizes) {
+    runs.push(await run(size));
+  }
+
+  console.log(`Median time per operation in µs (${ITERATIONS} iterations)\n`);
+  console.table(
+    Object.fromEntries(
+      Object.keys(runs[0]).map((op) => [
+        op,
+        Object.fromEntries(sizes.map((size, i) => [`${size} messages`, Number(runs[i][op].toFixed(2))])),
+      ]),
+    ),
+  );
+})();
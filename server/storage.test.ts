@@ -0,0 +1,31 @@
+import { sql } from "drizzle-orm";
+import { connectPglite, type DatabaseConnection } from "./db";
+import { DatabaseStorage } from "./database-storage";
+import { migrate } from "./migrator";
+import { SqliteStorage } from "./sqlite-storage";
+import { MemStorage } from "./storage";
+import { runStorageConformanceSuite } from "./storage-conformance";
+
+runStorageConformanceSuite("MemStorage", async () => new MemStorage());
+
+runStorageConformanceSuite("SqliteStorage", async () => new SqliteStorage(":memory:"));
+
+// Starting PGlite is slow, so one migrated instance is shared and emptied between tests
+let pglite: Promise<DatabaseConnection> | undefined;
+
+runStorageConformanceSuite("DatabaseStorage (pglite)", async () => {
+  pglite ??= (async () => {
+    const connection = connectPglite("memory://");
+    await migrate(connection.db);
+    return connection;
+  })();
+  const { db, sessionPool } = await pglite;
+  await db.execute(sql`
+    DO $$ DECLARE tables text; BEGIN
+      SELECT string_agg(quote_ident(tablename), ', ') INTO tables
+        FROM pg_tables WHERE schemaname = 'public' AND tablename <> 'schema_migrations';
+      EXECUTE 'TRUNCATE ' || tables || ' RESTART IDENTITY CASCADE';
+    END $$
+  `);
+  return new DatabaseStorage(db, sessionPool);
+});
@@ -1,84 +1,355 @@
-import { users, conversations, messages } from "@shared/schema";
-import type { User, InsertUser, Conversation, Message } from "@shared/schema";
+import { users, conversations, messages, parseMentions } from "@shared/schema";
+import { hasCodeBlock } from "@shared/markdown";
+import type {
+  User,
+  InsertUser,
+  Conversation,
+  Message,
+  MessageEdit,
+  MessageReaction,
+  Attachment,
+  InsertAttachment,
+  MessageKind,
+  PinnedMessage,
+} from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import { DatabaseStorage } from "./database-storage";
+import { connectDatabase } from "./db";
+import { SqliteStorage } from "./sqlite-storage";
 
 const MemoryStore = createMemoryStore(session);
 
+// Messages are ordered by id, which increases with creation time. Without a
+// cursor the newest `limit` messages are returned; `before` returns the newest
+// `limit` older than that id and `after` the oldest `limit` newer than it.
+// Pages are always returned oldest first. Thread-only replies are never listed
+// (see getReplies), and with a viewerId neither are messages that user deleted
+// for themselves.
+export type MessageQuery = {
+  before?: number;
+  after?: number;
+  limit?: number;
+  viewerId?: number;
+};
+
+export type MessageOptions = {
+  threadOnly?: boolean;
+  kind?: MessageKind;
+  // Uploads to link to the new message; ones already sent with a message are skipped
+  attachmentIds?: number[];
+};
+
+export type DirectConversationResult = {
+  conversation: Conversation;
+  created: boolean;
+};
+
+export type GroupDetails = {
+  name: string;
+  avatar?: string | null;
+};
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUserPassword(userId: number, hashedPassword: string): Promise<void>;
   updateUserProfilePicture(userId: number, profilePicture: string | null): Promise<void>;
+  updateUserLastSeen(userId: number, lastSeenAt: Date): Promise<void>;
+  // Ids of everyone who shares a conversation with the user, in no particular order
+  getContactIds(userId: number): Promise<number[]>;
   getConversations(userId: number): Promise<Conversation[]>;
-  createConversation(user1Id: number, user2Id: number): Promise<Conversation>;
-  getMessages(conversationId: number): Promise<Message[]>;
-  createMessage(conversationId: number, senderId: number, content: string, replyToId?: number): Promise<Message>;
-  sessionStore: session.SessionStore;
+  // Returns the single conversation between two users, creating it if needed.
+  // The pair is stored normalised (user1Id <= user2Id) whatever the argument order.
+  getOrCreateDirectConversation(userAId: number, userBId: number): Promise<DirectConversationResult>;
+  // The creator and members all become participants of the new group
+  createGroupConversation(creatorId: number, details: GroupDetails, memberIds: number[]): Promise<Conversation>;
+  getConversation(conversationId: number): Promise<Conversation | undefined>;
+  // Participants in the order they joined
+  getConversationParticipants(conversationId: number): Promise<User[]>;
+  isConversationParticipant(conversationId: number, userId: number): Promise<boolean>;
+  addConversationParticipant(conversationId: number, userId: number): Promise<void>;
+  removeConversationParticipant(conversationId: number, userId: number): Promise<void>;
+  getMessages(conversationId: number, query?: MessageQuery): Promise<Message[]>;
+  // Other participants named with @username in the content are recorded as
+  // mentioned; anyone else is ignored
+  createMessage(
+    conversationId: number,
+    senderId: number,
+    content: string,
+    replyToId?: number,
+    options?: MessageOptions,
+  ): Promise<Message>;
+  sessionStore: session.Store;
   updateMessageReadStatus(messageId: number, read: boolean): Promise<void>;
   markConversationMessagesAsRead(conversationId: number, userId: number): Promise<void>;
   getMessage(messageId: number): Promise<Message | undefined>;
+  // Messages with the given ids, oldest first; unknown ids are left out
+  getMessagesByIds(messageIds: number[]): Promise<Message[]>;
+  // Replaces the content, keeping the previous version in the edit history
+  editMessage(messageId: number, content: string): Promise<Message | undefined>;
+  // Previous versions of a message, oldest first
+  getMessageEdits(messageId: number): Promise<MessageEdit[]>;
+  // Deletes a message for one user only
+  hideMessage(messageId: number, userId: number): Promise<void>;
+  // Deletes a message for everyone: the content, edit history, reactions,
+  // mentions, pin and attachment records are wiped and the row is kept as a
+  // tombstone with deletedAt set. Removing the attachment blobs is up to the caller.
+  deleteMessage(messageId: number): Promise<Message | undefined>;
+  // Adding the same reaction twice keeps the first one
+  addReaction(messageId: number, userId: number, emoji: string): Promise<void>;
+  removeReaction(messageId: number, userId: number, emoji: string): Promise<void>;
+  // Reactions to any of the messages, oldest first
+  getReactions(messageIds: number[]): Promise<MessageReaction[]>;
+  // Every reply to a message, thread-only or not, oldest first
+  getReplies(messageId: number, viewerId?: number): Promise<Message[]>;
+  // Number of replies per message id; messages without replies are left out
+  getReplyCounts(messageIds: number[]): Promise<Map<number, number>>;
+  getMentionedUserIds(messageId: number): Promise<number[]>;
+  // Messages mentioning the user that they have not read yet, newest first.
+  // Leaves out messages they hid and conversations they have left.
+  getUnreadMentions(userId: number): Promise<Message[]>;
+  markMentionsAsRead(conversationId: number, userId: number): Promise<void>;
+  // Pins a message for everyone in the conversation. Pinning it again keeps
+  // the original pin.
+  pinMessage(conversationId: number, messageId: number, userId: number): Promise<PinnedMessage>;
+  // Resolves to whether the message was pinned
+  unpinMessage(messageId: number): Promise<boolean>;
+  // Newest pin first
+  getPinnedMessages(conversationId: number): Promise<PinnedMessage[]>;
+  // Records an upload that is not linked to a message yet
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachment(attachmentId: number): Promise<Attachment | undefined>;
+  // Attachments of any of the messages, oldest first
+  getAttachments(messageIds: number[]): Promise<Attachment[]>;
+  // Removes an upload unless it has been sent, resolving to the removed record.
+  // Removing the blobs is up to the caller, as for all deletions below.
+  deletePendingAttachment(attachmentId: number): Promise<Attachment | undefined>;
+  // Removes the uploads made before `before` that were never sent
+  deleteStalePendingAttachments(before: Date): Promise<Attachment[]>;
 }
 
+// Index of the first element of the ascending `ids` that is >= `id`
+function lowerBound(ids: number[], id: number): number {
+  let low = 0;
+  let high = ids.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (ids[mid] < id) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Keeps secondary indexes next to the primary maps so that lookups cost in
+// proportion to the user's own data rather than to everything stored.
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private conversations: Map<number, Conversation>;
   private messages: Map<number, Message>;
+  private messageEdits: Map<number, MessageEdit[]>;
+  // Message ids each user deleted for themselves
+  private hiddenMessageIds: Map<number, Set<number>>;
+  // Reactions per message in the order they were added
+  private reactions: Map<number, MessageReaction[]>;
+  private userIdsByUsername: Map<string, number>;
+  // Participants per conversation in join order, and the reverse lookup
+  private participantIds: Map<number, Set<number>>;
+  private conversationIdsByUser: Map<number, Set<number>>;
+  private conversationIdsByPair: Map<string, number>;
+  // Ascending ids of the messages listed in each conversation (thread-only
+  // replies are left out); ids only ever grow, so appending keeps them sorted
+  private messageIdsByConversation: Map<number, number[]>;
+  // Ascending reply ids per replied-to message
+  private replyIds: Map<number, number[]>;
+  // Users mentioned per message, and the ids of the mentions each user has not read
+  private mentionedUserIds: Map<number, number[]>;
+  private unreadMentionIds: Map<number, Set<number>>;
+  // Pins by message id, and the pinned message ids of each conversation
+  private pins: Map<number, PinnedMessage>;
+  private pinnedMessageIds: Map<number, Set<number>>;
+  private attachments: Map<number, Attachment>;
+  // Ascending attachment ids per message
+  private attachmentIdsByMessage: Map<number, number[]>;
+  // Unread message ids per conversation, grouped by sender: what is unread
+  // for a participant is everything sent by the others
+  private unreadMessageIds: Map<number, Map<number, Set<number>>>;
   private currentUserId: number;
   private currentConversationId: number;
   private currentMessageId: number;
-  sessionStore: session.SessionStore;
+  private currentMessageEditId: number;
+  private currentPinId: number;
+  private currentAttachmentId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.conversations = new Map();
     this.messages = new Map();
+    this.messageEdits = new Map();
+    this.hiddenMessageIds = new Map();
+    this.reactions = new Map();
+    this.userIdsByUsername = new Map();
+    this.participantIds = new Map();
+    this.conversationIdsByUser = new Map();
+    this.conversationIdsByPair = new Map();
+    this.messageIdsByConversation = new Map();
+    this.replyIds = new Map();
+    this.mentionedUserIds = new Map();
+    this.unreadMentionIds = new Map();
+    this.pins = new Map();
+    this.pinnedMessageIds = new Map();
+    this.attachments = new Map();
+    this.attachmentIdsByMessage = new Map();
+    this.unreadMessageIds = new Map();
     this.currentUserId = 1;
     this.currentConversationId = 1;
     this.currentMessageId = 1;
+    this.currentMessageEditId = 1;
+    this.currentPinId = 1;
+    this.currentAttachmentId = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000,
     });
   }
 
+  private addParticipants(conversationId: number, userIds: number[]) {
+    const participants = this.participantIds.get(conversationId) ?? new Set<number>();
+    this.participantIds.set(conversationId, participants);
+    userIds.forEach((userId) => {
+      participants.add(userId);
+      const ids = this.conversationIdsByUser.get(userId) ?? new Set<number>();
+      ids.add(conversationId);
+      this.conversationIdsByUser.set(userId, ids);
+    });
+  }
+
+  private unreadSetFor(conversationId: number, senderId: number): Set<number> {
+    let bySender = this.unreadMessageIds.get(conversationId);
+    if (!bySender) {
+      bySender = new Map();
+      this.unreadMessageIds.set(conversationId, bySender);
+    }
+    let ids = bySender.get(senderId);
+    if (!ids) {
+      ids = new Set();
+      bySender.set(senderId, ids);
+    }
+    return ids;
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+    const id = this.userIdsByUsername.get(username);
+    return id === undefined ? undefined : this.users.get(id);
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id, profilePicture: null };
+    const user: User = { ...insertUser, id, profilePicture: null, lastSeenAt: null };
     this.users.set(id, user);
+    if (!this.userIdsByUsername.has(user.username)) {
+      this.userIdsByUsername.set(user.username, id);
+    }
     return user;
   }
 
   async getConversations(userId: number): Promise<Conversation[]> {
-    return Array.from(this.conversations.values()).filter(
-      (conv) => conv.user1Id === userId || conv.user2Id === userId,
-    );
+    const ids = this.conversationIdsByUser.get(userId);
+    if (!ids) return [];
+    return Array.from(ids, (id) => this.conversations.get(id)!).sort((a, b) => a.id - b.id);
   }
 
-  async createConversation(user1Id: number, user2Id: number): Promise<Conversation> {
+  async getOrCreateDirectConversation(userAId: number, userBId: number): Promise<DirectConversationResult> {
+    const [user1Id, user2Id] = userAId <= userBId ? [userAId, userBId] : [userBId, userAId];
+    const pairKey = `${user1Id}:${user2Id}`;
+    const existingId = this.conversationIdsByPair.get(pairKey);
+    if (existingId !== undefined) {
+      return { conversation: this.conversations.get(existingId)!, created: false };
+    }
+
+    const id = this.currentConversationId++;
+    const conversation: Conversation = { id, user1Id, user2Id, isGroup: false, name: null, avatar: null, createdBy: null };
+    this.conversations.set(id, conversation);
+    this.conversationIdsByPair.set(pairKey, id);
+    this.addParticipants(id, [user1Id, user2Id]);
+    return { conversation, created: true };
+  }
+
+  async createGroupConversation(creatorId: number, details: GroupDetails, memberIds: number[]): Promise<Conversation> {
     const id = this.currentConversationId++;
-    const conversation: Conversation = { id, user1Id, user2Id };
+    const conversation: Conversation = {
+      id,
+      user1Id: null,
+      user2Id: null,
+      isGroup: true,
+      name: details.name,
+      avatar: details.avatar ?? null,
+      createdBy: creatorId,
+    };
     this.conversations.set(id, conversation);
+    this.addParticipants(id, [creatorId, ...memberIds]);
     return conversation;
   }
 
-  async getMessages(conversationId: number): Promise<Message[]> {
-    return Array.from(this.messages.values())
-      .filter((msg) => msg.conversationId === conversationId)
-      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  async getConversation(conversationId: number): Promise<Conversation | undefined> {
+    return this.conversations.get(conversationId);
   }
 
-  async createMessage(conversationId: number, senderId: number, content: string, replyToId?: number): Promise<Message> {
+  async getConversationParticipants(conversationId: number): Promise<User[]> {
+    const ids = this.participantIds.get(conversationId);
+    if (!ids) return [];
+    return Array.from(ids, (id) => this.users.get(id)!);
+  }
+
+  async isConversationParticipant(conversationId: number, userId: number): Promise<boolean> {
+    return this.participantIds.get(conversationId)?.has(userId) ?? false;
+  }
+
+  async addConversationParticipant(conversationId: number, userId: number): Promise<void> {
+    this.addParticipants(conversationId, [userId]);
+  }
+
+  async removeConversationParticipant(conversationId: number, userId: number): Promise<void> {
+    this.participantIds.get(conversationId)?.delete(userId);
+    this.conversationIdsByUser.get(userId)?.delete(conversationId);
+  }
+
+  async getMessages(conversationId: number, query: MessageQuery = {}): Promise<Message[]> {
+    const { before, after, limit = Infinity, viewerId } = query;
+    const ids = this.messageIdsByConversation.get(conversationId) ?? [];
+    const hidden = viewerId !== undefined ? this.hiddenMessageIds.get(viewerId) : undefined;
+
+    const start = after !== undefined ? lowerBound(ids, after + 1) : 0;
+    const end = before !== undefined ? lowerBound(ids, before) : ids.length;
+    const page: number[] = [];
+
+    // Walk outwards from the cursor so the cost depends on the page size
+    if (after !== undefined) {
+      for (let i = start; i < end && page.length < limit; i++) {
+        if (!hidden?.has(ids[i])) page.push(ids[i]);
+      }
+    } else {
+      for (let i = end - 1; i >= start && page.length < limit; i--) {
+        if (!hidden?.has(ids[i])) page.push(ids[i]);
+      }
+      page.reverse();
+    }
+
+    return page.map((id) => this.messages.get(id)!);
+  }
+
+  async createMessage(
+    conversationId: number,
+    senderId: number,
+    content: string,
+    replyToId?: number,
+    options: MessageOptions = {},
+  ): Promise<Message> {
     const id = this.currentMessageId++;
     const message: Message = {
       id,
@@ -88,8 +359,50 @@ export class MemStorage implements IStorage {
       timestamp: new Date(),
       read: false,
       replyToId: replyToId || null,
+      editedAt: null,
+      deletedAt: null,
+      threadOnly: options.threadOnly ?? false,
+      hasCode: hasCodeBlock(content),
+      kind: options.kind ?? "text",
     };
     this.messages.set(id, message);
+
+    if (!message.threadOnly) {
+      const ids = this.messageIdsByConversation.get(conversationId) ?? [];
+      ids.push(id);
+      this.messageIdsByConversation.set(conversationId, ids);
+    }
+    if (message.replyToId) {
+      const ids = this.replyIds.get(message.replyToId) ?? [];
+      ids.push(id);
+      this.replyIds.set(message.replyToId, ids);
+    }
+    this.unreadSetFor(conversationId, senderId).add(id);
+
+    const participants = this.participantIds.get(conversationId);
+    const mentioned = parseMentions(content)
+      .flatMap((username) => this.userIdsByUsername.get(username) ?? [])
+      .filter((userId) => userId !== senderId && participants?.has(userId));
+    if (mentioned.length > 0) {
+      this.mentionedUserIds.set(id, mentioned);
+      mentioned.forEach((userId) => {
+        const ids = this.unreadMentionIds.get(userId) ?? new Set<number>();
+        ids.add(id);
+        this.unreadMentionIds.set(userId, ids);
+      });
+    }
+
+    const attachmentIds = (options.attachmentIds ?? []).filter((attachmentId) => {
+      const attachment = this.attachments.get(attachmentId);
+      return attachment && attachment.messageId === null;
+    });
+    if (attachmentIds.length > 0) {
+      attachmentIds.forEach((attachmentId) => {
+        this.attachments.set(attachmentId, { ...this.attachments.get(attachmentId)!, messageId: id });
+      });
+      this.attachmentIdsByMessage.set(id, Array.from(new Set(attachmentIds)).sort((a, b) => a - b));
+    }
+
     return message;
   }
 
@@ -107,24 +420,240 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateUserLastSeen(userId: number, lastSeenAt: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, lastSeenAt });
+    }
+  }
+
+  async getContactIds(userId: number): Promise<number[]> {
+    const contactIds = new Set<number>();
+    this.conversationIdsByUser.get(userId)?.forEach((conversationId) => {
+      this.participantIds.get(conversationId)?.forEach((id) => contactIds.add(id));
+    });
+    contactIds.delete(userId);
+    return Array.from(contactIds);
+  }
+
   async updateMessageReadStatus(messageId: number, read: boolean): Promise<void> {
     const message = this.messages.get(messageId);
     if (message) {
       this.messages.set(messageId, { ...message, read });
+      const unread = this.unreadSetFor(message.conversationId, message.senderId);
+      if (read) unread.delete(messageId);
+      else unread.add(messageId);
     }
   }
 
   async markConversationMessagesAsRead(conversationId: number, userId: number): Promise<void> {
-    for (const [id, message] of this.messages) {
-      if (message.conversationId === conversationId && message.senderId !== userId) {
-        this.messages.set(id, { ...message, read: true });
-      }
-    }
+    this.unreadMessageIds.get(conversationId)?.forEach((ids, senderId) => {
+      if (senderId === userId) return;
+      ids.forEach((id) => {
+        this.messages.set(id, { ...this.messages.get(id)!, read: true });
+      });
+      ids.clear();
+    });
   }
 
   async getMessage(messageId: number): Promise<Message | undefined> {
     return this.messages.get(messageId);
   }
+
+  async getMessagesByIds(messageIds: number[]): Promise<Message[]> {
+    return Array.from(new Set(messageIds))
+      .sort((a, b) => a - b)
+      .flatMap((id) => this.messages.get(id) ?? []);
+  }
+
+  async editMessage(messageId: number, content: string): Promise<Message | undefined> {
+    const previous = this.messages.get(messageId);
+    if (!previous) return undefined;
+
+    const editedAt = new Date();
+    const edits = this.messageEdits.get(messageId) ?? [];
+    edits.push({ id: this.currentMessageEditId++, messageId, content: previous.content, editedAt });
+    this.messageEdits.set(messageId, edits);
+
+    const message: Message = { ...previous, content, editedAt, hasCode: hasCodeBlock(content) };
+    this.messages.set(messageId, message);
+    return message;
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return [...(this.messageEdits.get(messageId) ?? [])];
+  }
+
+  async hideMessage(messageId: number, userId: number): Promise<void> {
+    const ids = this.hiddenMessageIds.get(userId) ?? new Set<number>();
+    ids.add(messageId);
+    this.hiddenMessageIds.set(userId, ids);
+  }
+
+  async deleteMessage(messageId: number): Promise<Message | undefined> {
+    const previous = this.messages.get(messageId);
+    if (!previous) return undefined;
+
+    const message: Message = { ...previous, content: "", hasCode: false, deletedAt: previous.deletedAt ?? new Date() };
+    this.messages.set(messageId, message);
+    this.messageEdits.delete(messageId);
+    this.reactions.delete(messageId);
+    this.mentionedUserIds.get(messageId)?.forEach((userId) => this.unreadMentionIds.get(userId)?.delete(messageId));
+    this.mentionedUserIds.delete(messageId);
+    this.removePin(messageId);
+    this.attachmentIdsByMessage.get(messageId)?.forEach((attachmentId) => this.attachments.delete(attachmentId));
+    this.attachmentIdsByMessage.delete(messageId);
+    return message;
+  }
+
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    const reactions = this.reactions.get(messageId) ?? [];
+    if (reactions.some((r) => r.userId === userId && r.emoji === emoji)) return;
+    reactions.push({ messageId, userId, emoji, createdAt: new Date() });
+    this.reactions.set(messageId, reactions);
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    const reactions = this.reactions.get(messageId);
+    if (!reactions) return;
+    this.reactions.set(messageId, reactions.filter((r) => r.userId !== userId || r.emoji !== emoji));
+  }
+
+  async getReactions(messageIds: number[]): Promise<MessageReaction[]> {
+    return messageIds
+      .flatMap((id) => this.reactions.get(id) ?? [])
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getReplies(messageId: number, viewerId?: number): Promise<Message[]> {
+    const hidden = viewerId !== undefined ? this.hiddenMessageIds.get(viewerId) : undefined;
+    return (this.replyIds.get(messageId) ?? [])
+      .filter((id) => !hidden?.has(id))
+      .map((id) => this.messages.get(id)!);
+  }
+
+  async getReplyCounts(messageIds: number[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    messageIds.forEach((id) => {
+      const count = this.replyIds.get(id)?.length;
+      if (count) counts.set(id, count);
+    });
+    return counts;
+  }
+
+  async getMentionedUserIds(messageId: number): Promise<number[]> {
+    return this.mentionedUserIds.get(messageId) ?? [];
+  }
+
+  async getUnreadMentions(userId: number): Promise<Message[]> {
+    const hidden = this.hiddenMessageIds.get(userId);
+    const conversationIds = this.conversationIdsByUser.get(userId);
+    return Array.from(this.unreadMentionIds.get(userId) ?? [])
+      .filter((id) => !hidden?.has(id))
+      .map((id) => this.messages.get(id)!)
+      .filter((message) => conversationIds?.has(message.conversationId))
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async markMentionsAsRead(conversationId: number, userId: number): Promise<void> {
+    const ids = this.unreadMentionIds.get(userId);
+    ids?.forEach((id) => {
+      if (this.messages.get(id)!.conversationId === conversationId) ids.delete(id);
+    });
+  }
+
+  async pinMessage(conversationId: number, messageId: number, userId: number): Promise<PinnedMessage> {
+    const existing = this.pins.get(messageId);
+    if (existing) return existing;
+    const pin: PinnedMessage = {
+      id: this.currentPinId++,
+      messageId,
+      conversationId,
+      pinnedBy: userId,
+      pinnedAt: new Date(),
+    };
+    this.pins.set(messageId, pin);
+    const ids = this.pinnedMessageIds.get(conversationId) ?? new Set<number>();
+    ids.add(messageId);
+    this.pinnedMessageIds.set(conversationId, ids);
+    return pin;
+  }
+
+  private removePin(messageId: number): boolean {
+    const pin = this.pins.get(messageId);
+    if (!pin) return false;
+    this.pins.delete(messageId);
+    this.pinnedMessageIds.get(pin.conversationId)?.delete(messageId);
+    return true;
+  }
+
+  async unpinMessage(messageId: number): Promise<boolean> {
+    return this.removePin(messageId);
+  }
+
+  async getPinnedMessages(conversationId: number): Promise<PinnedMessage[]> {
+    const ids = this.pinnedMessageIds.get(conversationId) ?? new Set<number>();
+    return Array.from(ids, (id) => this.pins.get(id)!).sort((a, b) => b.id - a.id);
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const attachment: Attachment = {
+      ...insertAttachment,
+      width: insertAttachment.width ?? null,
+      height: insertAttachment.height ?? null,
+      blurhash: insertAttachment.blurhash ?? null,
+      durationMs: insertAttachment.durationMs ?? null,
+      waveform: insertAttachment.waveform ?? null,
+      id: this.currentAttachmentId++,
+      messageId: null,
+      createdAt: new Date(),
+    };
+    this.attachments.set(attachment.id, attachment);
+    return attachment;
+  }
+
+  async getAttachment(attachmentId: number): Promise<Attachment | undefined> {
+    return this.attachments.get(attachmentId);
+  }
+
+  async getAttachments(messageIds: number[]): Promise<Attachment[]> {
+    return Array.from(new Set(messageIds))
+      .flatMap((messageId) => this.attachmentIdsByMessage.get(messageId) ?? [])
+      .sort((a, b) => a - b)
+      .map((id) => this.attachments.get(id)!);
+  }
+
+  async deletePendingAttachment(attachmentId: number): Promise<Attachment | undefined> {
+    const attachment = this.attachments.get(attachmentId);
+    if (!attachment || attachment.messageId !== null) return undefined;
+    this.attachments.delete(attachmentId);
+    return attachment;
+  }
+
+  async deleteStalePendingAttachments(before: Date): Promise<Attachment[]> {
+    const stale = Array.from(this.attachments.values()).filter((attachment) => {
+      return attachment.messageId === null && attachment.createdAt < before;
+    });
+    stale.forEach((attachment) => this.attachments.delete(attachment.id));
+    return stale;
+  }
+}
+
+// Selected with STORAGE_BACKEND; defaults to the in-memory store
+export function createStorage(backend = process.env.STORAGE_BACKEND || "memory"): IStorage {
+  switch (backend) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+    case "pglite": {
+      const { db, sessionPool } = connectDatabase(backend);
+      return new DatabaseStorage(db, sessionPool);
+    }
+    case "sqlite":
+      return new SqliteStorage(process.env.SQLITE_PATH || "./data/chat.db");
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage = createStorage();
@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { isBlurhashValid } from "blurhash";
+import { processImage } from "./thumbnails";
+
+function photo(width: number, height: number, orientation?: number) {
+  const image = sharp({ create: { width, height, channels: 3, background: { r: 200, g: 40, b: 40 } } });
+  return (orientation ? image.withMetadata({ orientation }) : image).jpeg().toBuffer();
+}
+
+describe("image thumbnails", () => {
+  it("measures the image and scales a WebP thumbnail to each width", async () => {
+    const image = await processImage(await photo(1000, 500));
+
+    assert.equal(image.width, 1000);
+    assert.equal(image.height, 500);
+    assert.ok(isBlurhashValid(image.blurhash).result);
+    const sizes = await Promise.all(image.thumbnails.map(({ data }) => sharp(data).metadata()));
+    assert.deepEqual(sizes.map(({ format, width, height }) => [format, width, height]), [
+      ["webp", 160, 80],
+      ["webp", 320, 160],
+      ["webp", 640, 320],
+    ]);
+  });
+
+  it("never enlarges small images", async () => {
+    const image = await processImage(await photo(200, 100));
+
+    const widths = await Promise.all(image.thumbnails.map(async ({ data }) => (await sharp(data).metadata()).width));
+    assert.deepEqual(widths, [160, 200, 200]);
+  });
+
+  it("applies the EXIF orientation", async () => {
+    const image = await processImage(await photo(300, 100, 6));
+
+    assert.equal(image.width, 100);
+    assert.equal(image.height, 300);
+  });
+
+  it("rejects data that is not an image", async () => {
+    await assert.rejects(processImage(Buffer.from("\x89PNG\r\n\x1a\nnot really")));
+  });
+});
@@ -0,0 +1,45 @@
+import sharp from "sharp";
+import { encode } from "blurhash";
+import { thumbnailWidths } from "@shared/schema";
+
+// Larger images are rejected rather than decoded
+const maxImagePixels = 50_000_000;
+// Blurhash only needs a rough picture, so it is computed from a tiny copy
+const placeholderSize = 32;
+
+export type ProcessedImage = {
+  width: number;
+  height: number;
+  blurhash: string;
+  // A WebP for each of thumbnailWidths, never scaled past the original
+  thumbnails: { width: number; data: Buffer }[];
+};
+
+// Blob key of an image attachment's thumbnail
+export function thumbnailKey(storageKey: string, width: number) {
+  return `${storageKey}-${width}`;
+}
+
+// Measures an uploaded image and renders its thumbnails and placeholder, with
+// the EXIF orientation applied. Rejects when the data can't be decoded.
+export async function processImage(data: Buffer): Promise<ProcessedImage> {
+  const image = sharp(data, { autoOrient: true, limitInputPixels: maxImagePixels });
+  const { width, height } = (await image.metadata()).autoOrient;
+
+  const thumbnails = await Promise.all(
+    thumbnailWidths.map(async (thumbnailWidth) => ({
+      width: thumbnailWidth,
+      data: await image.clone().resize({ width: thumbnailWidth, withoutEnlargement: true }).webp().toBuffer(),
+    })),
+  );
+
+  const { data: pixels, info } = await image
+    .clone()
+    .resize(placeholderSize, placeholderSize, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encode(new Uint8ClampedArray(pixels), info.width, info.height, 4, 3);
+
+  return { width, height, blurhash, thumbnails };
+}
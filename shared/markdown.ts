@@ -0,0 +1,270 @@
+// Parser for the small Markdown dialect messages are written in: bold, italic,
+// strikethrough, inline code, fenced code blocks, quotes, flat lists and bare
+// URLs. It only ever produces this tree; the client renders each node as an
+// element, so nothing in a message can reach the page as HTML.
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "strike"; children: Inline[] }
+  | { type: "code"; code: string }
+  | { type: "link"; href: string; text: string }
+  | { type: "break" };
+
+export type Block =
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "code"; language: string | null; code: string }
+  | { type: "quote"; children: Block[] }
+  | { type: "list"; ordered: boolean; start: number; items: Inline[][] };
+
+// Deeper nesting is shown as plain text rather than parsed further
+const MAX_QUOTE_DEPTH = 3;
+const MAX_INLINE_DEPTH = 4;
+const MAX_URL_LENGTH = 2048;
+
+const fenceOpenPattern = /^\s*```\s*([\w+#.-]*)\s*$/;
+const fenceClosePattern = /^\s*```\s*$/;
+const quotePattern = /^\s*>\s?/;
+const bulletPattern = /^\s*[-*+]\s+/;
+const orderedPattern = /^\s*(\d{1,9})[.)]\s+/;
+const urlPattern = /^(?:https?:\/\/|www\.)[^\s<>"]+/;
+const escapablePattern = /[\\`*_~>#+\-.!()[\]]/;
+
+const delimiters = [
+  { marker: "**", type: "strong" },
+  { marker: "__", type: "strong" },
+  { marker: "~~", type: "strike" },
+  { marker: "*", type: "em" },
+  { marker: "_", type: "em" },
+] as const;
+
+export function parseMarkdown(text: string): Block[] {
+  return parseBlocks(text.replace(/\r\n?/g, "\n").split("\n"), 0);
+}
+
+// Whether a message has a fenced code block, quoted or not. Runs on every
+// write, so it only scans lines and never parses inline markup.
+export function hasCodeBlock(text: string): boolean {
+  return linesHaveFence(text.replace(/\r\n?/g, "\n").split("\n"), 0);
+}
+
+// Any opening fence outside a quote starts a code block, as in parseBlocks
+function linesHaveFence(lines: string[], depth: number): boolean {
+  let i = 0;
+  while (i < lines.length) {
+    if (fenceOpenPattern.test(lines[i])) return true;
+    if (depth < MAX_QUOTE_DEPTH && quotePattern.test(lines[i])) {
+      const quoted: string[] = [];
+      while (i < lines.length && quotePattern.test(lines[i])) quoted.push(lines[i++].replace(quotePattern, ""));
+      if (linesHaveFence(quoted, depth + 1)) return true;
+      continue;
+    }
+    i++;
+  }
+  return false;
+}
+
+function startsBlock(line: string, depth: number): boolean {
+  return (
+    fenceOpenPattern.test(line) ||
+    (depth < MAX_QUOTE_DEPTH && quotePattern.test(line)) ||
+    bulletPattern.test(line) ||
+    orderedPattern.test(line)
+  );
+}
+
+function parseBlocks(lines: string[], depth: number): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    const fence = fenceOpenPattern.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !fenceClosePattern.test(lines[i])) code.push(lines[i++]);
+      // An unclosed fence runs to the end of the message
+      i++;
+      blocks.push({ type: "code", language: fence[1] || null, code: code.join("\n") });
+      continue;
+    }
+
+    if (depth < MAX_QUOTE_DEPTH && quotePattern.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && quotePattern.test(lines[i])) quoted.push(lines[i++].replace(quotePattern, ""));
+      blocks.push({ type: "quote", children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    const ordered = orderedPattern.exec(line);
+    if (ordered || bulletPattern.test(line)) {
+      const pattern = ordered ? orderedPattern : bulletPattern;
+      const items: Inline[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) items.push(parseInline(lines[i++].replace(pattern, "")));
+      blocks.push({ type: "list", ordered: !!ordered, start: ordered ? Number(ordered[1]) : 1, items });
+      continue;
+    }
+
+    const paragraph = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() !== "" && !startsBlock(lines[i], depth)) paragraph.push(lines[i++]);
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /\w/.test(char);
+}
+
+function isSpace(char: string | undefined): boolean {
+  return char !== undefined && /\s/.test(char);
+}
+
+// Bare URL starting at `start`, without trailing punctuation from the sentence
+function matchUrl(text: string, start: number): string | null {
+  if (!text.startsWith("http", start) && !text.startsWith("www.", start)) return null;
+  if (start > 0 && !/[\s([]/.test(text[start - 1])) return null;
+  const match = urlPattern.exec(text.slice(start, start + MAX_URL_LENGTH));
+  if (!match) return null;
+
+  let url = match[0];
+  for (;;) {
+    const last = url[url.length - 1];
+    if (".,:;!?'*_~".includes(last)) {
+      url = url.slice(0, -1);
+    } else if (last === ")" && url.split("(").length < url.split(")").length) {
+      url = url.slice(0, -1);
+    } else {
+      break;
+    }
+  }
+  return /^(https?:\/\/|www\.)$/.test(url) ? null : url;
+}
+
+// Whether the marker at `end` can close emphasis
+function closesAt(text: string, end: number, marker: string): boolean {
+  return (
+    text.startsWith(marker, end) &&
+    !isSpace(text[end - 1]) &&
+    // Underscores inside words, as in snake_case, stay literal
+    !(marker[0] === "_" && isWordChar(text[end + marker.length])) &&
+    // A lone * or _ must not close on half of a double marker
+    !(marker.length === 1 && (text[end + 1] === marker || text[end - 1] === marker))
+  );
+}
+
+type CloserTable = {
+  // Index of the next line break at or after each position, or the length
+  nextBreak: Int32Array;
+  // Per delimiter, the next position at or after each one where it can close,
+  // or the length when there is none
+  nextCloser: Int32Array[];
+};
+
+// Built in one pass from the end, so matching an opener is a lookup instead
+// of a scan of the rest of the line
+function buildCloserTable(text: string): CloserTable {
+  const length = text.length;
+  const nextBreak = new Int32Array(length + 1);
+  const nextCloser = delimiters.map(() => new Int32Array(length + 1));
+  nextBreak[length] = length;
+  nextCloser.forEach((next) => (next[length] = length));
+
+  for (let i = length - 1; i >= 0; i--) {
+    nextBreak[i] = text[i] === "\n" ? i : nextBreak[i + 1];
+    delimiters.forEach(({ marker }, d) => {
+      nextCloser[d][i] = closesAt(text, i, marker) ? i : nextCloser[d][i + 1];
+    });
+  }
+  return { nextBreak, nextCloser };
+}
+
+// Emphasis opened at `start`, closed later on the same line
+function matchDelimited(text: string, start: number, table: CloserTable) {
+  const lineEnd = table.nextBreak[start];
+
+  for (let d = 0; d < delimiters.length; d++) {
+    const { marker, type } = delimiters[d];
+    if (!text.startsWith(marker, start)) continue;
+    const contentStart = start + marker.length;
+    if (contentStart >= lineEnd || isSpace(text[contentStart])) continue;
+    if (marker[0] === "_" && isWordChar(text[start - 1])) continue;
+
+    // Emphasis is never empty, so the closer comes after the first character
+    const end = table.nextCloser[d][contentStart + 1];
+    if (end >= lineEnd) continue;
+
+    return { type, inner: text.slice(contentStart, end), end: end + marker.length };
+  }
+  return null;
+}
+
+export function parseInline(text: string, depth = 0): Inline[] {
+  const nodes: Inline[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  // Only needed when emphasis can still nest
+  const table = depth < MAX_INLINE_DEPTH ? buildCloserTable(text) : null;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\\" && i + 1 < text.length && escapablePattern.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "code", code: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "h" || char === "w") {
+      const url = matchUrl(text, i);
+      if (url) {
+        flush();
+        nodes.push({ type: "link", href: url.startsWith("www.") ? `https://${url}` : url, text: url });
+        i += url.length;
+        continue;
+      }
+    }
+
+    const span = table ? matchDelimited(text, i, table) : null;
+    if (span) {
+      flush();
+      nodes.push({ type: span.type, children: parseInline(span.inner, depth + 1) });
+      i = span.end;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
@@ -1,4 +1,18 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  serial,
+  integer,
+  boolean,
+  timestamp,
+  jsonb,
+  index,
+  unique,
+  check,
+  primaryKey,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,13 +21,41 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   profilePicture: text("profile_picture"),
+  // When the user was last active; null if they have never connected
+  lastSeenAt: timestamp("last_seen_at"),
 });
 
+// Members of every conversation live in conversation_participants. A direct
+// conversation additionally stores its pair of users normalised so that
+// user1Id <= user2Id, which lets the unique constraint allow one per pair;
+// group conversations leave the pair empty and carry a name and avatar.
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
-  user1Id: integer("user1_id").references(() => users.id).notNull(),
-  user2Id: integer("user2_id").references(() => users.id).notNull(),
-});
+  user1Id: integer("user1_id").references(() => users.id),
+  user2Id: integer("user2_id").references(() => users.id),
+  isGroup: boolean("is_group").default(false).notNull(),
+  name: text("name"),
+  avatar: text("avatar"),
+  // Who created a group, the only member who can remove others; null for direct conversations
+  createdBy: integer("created_by").references(() => users.id),
+}, (table) => [
+  unique("conversations_user_pair_unique").on(table.user1Id, table.user2Id),
+  check("conversations_user_pair_ordered", sql`${table.user1Id} <= ${table.user2Id}`),
+  check("conversations_direct_has_pair", sql`${table.isGroup} OR (${table.user1Id} IS NOT NULL AND ${table.user2Id} IS NOT NULL)`),
+]);
+
+export const conversationParticipants = pgTable("conversation_participants", {
+  conversationId: integer("conversation_id").references(() => conversations.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.conversationId, table.userId] }),
+  index("conversation_participants_user_id_idx").on(table.userId),
+]);
+
+// text: plain Markdown; file: sent with attachments, content is an optional
+// caption; audio: a voice recording as its single attachment, without content
+export const messageKinds = ["text", "file", "audio"] as const;
 
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
@@ -22,20 +64,207 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   read: boolean("read").default(false).notNull(),
-  replyToId: integer("reply_to_id").references(() => messages.id),
-});
+  replyToId: integer("reply_to_id").references((): AnyPgColumn => messages.id),
+  editedAt: timestamp("edited_at"),
+  // Set when the sender deletes the message for everyone; the row stays as a
+  // tombstone with empty content so replies can still point at it
+  deletedAt: timestamp("deleted_at"),
+  // Replies sent from a thread panel are only listed in their thread, not in
+  // the main conversation
+  threadOnly: boolean("thread_only").default(false).notNull(),
+  // Whether the content has a fenced code block, kept up to date on edits so
+  // messages with code can be filtered
+  hasCode: boolean("has_code").default(false).notNull(),
+  kind: text("kind", { enum: messageKinds }).default("text").notNull(),
+}, (table) => [
+  index("messages_conversation_id_idx").on(table.conversationId, table.id),
+  index("messages_reply_to_id_idx").on(table.replyToId),
+]);
+
+// Messages a user deleted for themselves only
+export const hiddenMessages = pgTable("hidden_messages", {
+  userId: integer("user_id").references(() => users.id).notNull(),
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  hiddenAt: timestamp("hidden_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.messageId] }),
+]);
+
+// Each row keeps the content a message had before one edit
+export const messageEdits = pgTable("message_edits", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  content: text("content").notNull(),
+  editedAt: timestamp("edited_at").defaultNow().notNull(),
+}, (table) => [
+  index("message_edits_message_id_idx").on(table.messageId),
+]);
+
+export const messageReactions = pgTable("message_reactions", {
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.messageId, table.userId, table.emoji] }),
+]);
+
+// Participants named with @username in a message; readAt stays null until they
+// open the conversation
+export const messageMentions = pgTable("message_mentions", {
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+}, (table) => [
+  primaryKey({ columns: [table.messageId, table.userId] }),
+  index("message_mentions_user_id_idx").on(table.userId),
+]);
+
+// Messages pinned to the top of their conversation; every participant sees
+// the same pins
+export const pinnedMessages = pgTable("pinned_messages", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").references(() => messages.id).notNull().unique(),
+  conversationId: integer("conversation_id").references(() => conversations.id).notNull(),
+  pinnedBy: integer("pinned_by").references(() => users.id).notNull(),
+  pinnedAt: timestamp("pinned_at").defaultNow().notNull(),
+}, (table) => [
+  index("pinned_messages_conversation_id_idx").on(table.conversationId),
+]);
+
+// Uploaded files. The bytes live in the blob store under storageKey; messageId
+// stays null until the upload is sent with a message. Images also get their
+// size, a blurhash placeholder and thumbnails in the blob store.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => conversations.id).notNull(),
+  uploaderId: integer("uploader_id").references(() => users.id).notNull(),
+  messageId: integer("message_id").references(() => messages.id),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull().unique(),
+  width: integer("width"),
+  height: integer("height"),
+  blurhash: text("blurhash"),
+  // Audio length and peak levels (0-100), measured by the recording browser
+  durationMs: integer("duration_ms"),
+  waveform: jsonb("waveform").$type<number[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("attachments_message_id_idx").on(table.messageId),
+]);
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
+export const maxAttachmentsPerMessage = 10;
+export const maxMessageLength = 10_000;
+
 export const insertMessageSchema = createInsertSchema(messages).pick({
   conversationId: true,
   content: true,
 }).extend({
-  content: z.string().min(1, "Message cannot be empty"),
-  replyToId: z.number().optional(),
+  // May only be empty when attachments are sent
+  content: z.string().max(maxMessageLength, `Messages are limited to ${maxMessageLength} characters`),
+  replyToId: z.number().int().positive().optional(),
+  threadOnly: z.boolean().optional(),
+  attachmentIds: z.array(z.number().int().positive()).max(maxAttachmentsPerMessage).optional(),
+  // Worked out from the attachments when left out
+  kind: z.enum(messageKinds).optional(),
+});
+
+// Files that can be attached to messages. SVG and HTML are left out because
+// browsers can run scripts in them.
+export const attachmentMimeTypes = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/json",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "audio/webm",
+  "audio/ogg",
+  "audio/mp4",
+  "audio/mpeg",
+] as const;
+
+export const maxVoiceMessageSeconds = 300;
+export const waveformBars = 48;
+
+// The file is the raw request body, so its name and type travel in the query
+export const uploadAttachmentQuerySchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  type: z.enum(attachmentMimeTypes),
+  // Sent with voice recordings; the waveform is comma-separated levels
+  durationMs: z.coerce.number().int().positive().max(maxVoiceMessageSeconds * 1000).optional(),
+  waveform: z
+    .string()
+    .transform((levels) => levels.split(",").map(Number))
+    .pipe(z.array(z.number().int().min(0).max(100)).min(1).max(waveformBars))
+    .optional(),
+});
+
+// Widths images are scaled down to on upload
+export const thumbnailWidths = [160, 320, 640] as const;
+
+export const thumbnailQuerySchema = z.object({
+  width: z.coerce.number().refine((width) => (thumbnailWidths as readonly number[]).includes(width)),
+});
+
+// Built with the RegExp constructor because the compile target predates the u flag
+const emojiSequencePattern = new RegExp(
+  "^(\\p{Extended_Pictographic}|\\p{Regional_Indicator}|\\p{Emoji_Component}|\\u200d|\\ufe0f)+$",
+  "u",
+);
+const pictographPattern = new RegExp("\\p{Extended_Pictographic}|\\p{Regional_Indicator}", "u");
+
+// A single emoji, possibly built from several code points (skin tones, ZWJ sequences, flags)
+export const reactionSchema = z.object({
+  emoji: z
+    .string()
+    .max(32)
+    .regex(emojiSequencePattern, "Invalid emoji")
+    .refine((emoji) => pictographPattern.test(emoji), "Invalid emoji"),
+});
+
+export const deleteMessageQuerySchema = z.object({
+  scope: z.enum(["me", "everyone"]).default("me"),
+});
+
+export const editMessageSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, "Message cannot be empty")
+    .max(maxMessageLength, `Messages are limited to ${maxMessageLength} characters`),
+});
+
+// Cursors are message ids: `before` pages towards older messages, `after` towards
+// newer ones, and `around` loads the page with that message in the middle
+export const messagePageQuerySchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  after: z.coerce.number().int().nonnegative().optional(),
+  around: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+}).refine((query) => [query.before, query.after, query.around].filter((cursor) => cursor !== undefined).length <= 1, {
+  message: "Use only one of before, after and around",
+});
+
+export const insertGroupConversationSchema = z.object({
+  name: z.string().trim().min(1, "Group name is required").max(100),
+  avatar: z.string().url("Invalid URL").optional(),
+  usernames: z.array(z.string().min(1)).min(1, "Add at least one member"),
 });
 
 export const updateProfileSchema = z.object({
@@ -44,5 +273,115 @@ export const updateProfileSchema = z.object({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type Conversation = typeof conversations.$inferSelect;
+export type InsertGroupConversation = z.infer<typeof insertGroupConversationSchema>;
+// Conversation as returned by the API; otherUser is only set for direct conversations
+export type ConversationWithParticipants = Conversation & {
+  participants: PublicUser[];
+  otherUser?: PublicUser;
+};
 export type Message = typeof messages.$inferSelect;
+export type MessageKind = (typeof messageKinds)[number];
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type MessageReaction = typeof messageReactions.$inferSelect;
+export type PinnedMessage = typeof pinnedMessages.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = Omit<typeof attachments.$inferInsert, "id" | "messageId" | "createdAt">;
+// What clients see of an attachment; where it is stored stays on the server
+export type AttachmentView = Omit<Attachment, "storageKey">;
+
+// Everyone who reacted to a message with one emoji, in the order they reacted
+export type ReactionSummary = {
+  emoji: string;
+  userIds: number[];
+};
+
+// Enough of the message being replied to for the quote above a reply
+export type ReplySummary = {
+  id: number;
+  senderId: number;
+  senderName: string;
+  // Empty when the original was deleted for everyone or has no text
+  excerpt: string;
+  kind: MessageKind;
+  deleted: boolean;
+};
+
+const EXCERPT_LENGTH = 120;
+
+// Single-line start of a message for reply quotes
+export function messageExcerpt(content: string): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+}
+
+// @username preceded by the start of the text or whitespace; a trailing "." or
+// "-" is left out so that "thanks @bob." mentions bob
+export const mentionPattern = /(^|\s)@([\w.-]*\w)/g;
+
+// Usernames mentioned in a message, each once, in order of first mention
+export function parseMentions(content: string): string[] {
+  return Array.from(new Set(Array.from(content.matchAll(mentionPattern), (match) => match[2])));
+}
+
+// Message as the API returns it, with what the chat needs to render it
+export type MessageView = Message & {
+  reactions: ReactionSummary[];
+  replyCount: number;
+  replyTo: ReplySummary | null;
+  attachments: AttachmentView[];
+};
+
+export type ThreadView = {
+  root: MessageView;
+  // Oldest first
+  replies: MessageView[];
+};
+
+export type PinView = {
+  message: MessageView;
+  pinnedBy: number;
+  pinnedAt: Date;
+};
+
+export type MessagePage = {
+  messages: MessageView[];
+  // Pass as `before` to load older messages; null when there are none
+  prevCursor: number | null;
+  // Pass as `after` to load newer messages; null when this page reaches the newest one
+  nextCursor: number | null;
+};
+
+// Online while any of a user's connections is active, away while all of them
+// are idle and offline without one
+export type PresenceStatus = "online" | "away" | "offline";
+
+export type PresenceView = {
+  userId: number;
+  status: PresenceStatus;
+  lastSeenAt: Date | null;
+};
+
+// Events the server pushes over the WebSocket
+export type ServerEvent =
+  | { type: "ping" }
+  | { type: "typing"; conversationId: number; userId: number; isTyping: boolean }
+  | { type: "message.created"; conversationId: number; message: MessageView }
+  | { type: "message.edited"; message: MessageView }
+  | { type: "message.deleted"; message: MessageView }
+  | { type: "message.reactions"; conversationId: number; messageId: number; reactions: ReactionSummary[] }
+  | { type: "thread.updated"; conversationId: number; messageId: number; replyCount: number }
+  | { type: "mention.created"; message: MessageView }
+  | { type: "pin.added"; conversationId: number; pin: PinView }
+  | { type: "pin.removed"; conversationId: number; messageId: number }
+  // Members were added or removed; sent to them as well as the other members
+  | { type: "conversation.updated"; conversationId: number }
+  | ({ type: "presence" } & PresenceView);
+
+// Frames clients send over the WebSocket
+export type ClientEvent =
+  | { type: "view"; conversationId: number | null }
+  | { type: "typing"; conversationId: number; isTyping: boolean }
+  // Whether the user is using this tab; idle connections count as away
+  | { type: "activity"; active: boolean };